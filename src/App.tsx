@@ -5,15 +5,19 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { PipecatClientProvider, PipecatClientAudio } from "@pipecat-ai/client-react";
 import { PipecatClient } from "@pipecat-ai/client-js";
-import { DailyTransport } from "@pipecat-ai/daily-transport";
+import { ServerMessageProvider } from "@/components/ServerMessageProvider";
+import { VoiceSessionProvider } from "@/components/VoiceSessionProvider";
+import { createTransport } from "@/lib/pipecat-transport";
 import Index from "./pages/Index";
+import PropertyDetail from "./pages/PropertyDetail";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 // Create Pipecat client with enhanced configuration
 const pipecatClient = new PipecatClient({
-  transport: new DailyTransport(),
+  transport: createTransport(),  // DailyTransport, or the offline mock with ?transport=mock
   enableMic: true,        // Enable microphone by default
   enableCam: false,       // Disable camera for voice-only chat
 });
@@ -35,7 +39,11 @@ const AppContent = () => {
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<Index />} />
+        {/* Detail and settings open over the dashboard so a live call keeps its chat and results */}
+        <Route path="/" element={<Index />}>
+          <Route path="property/:id" element={<PropertyDetail />} />
+          <Route path="settings" element={<Settings />} />
+        </Route>
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<NotFound />} />
       </Routes>
@@ -46,13 +54,17 @@ const AppContent = () => {
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <PipecatClientProvider client={pipecatClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        {/* Add PipecatClientAudio for bot audio playback */}
-        <PipecatClientAudio />
-        <AppContent />
-      </TooltipProvider>
+      <VoiceSessionProvider>
+        <ServerMessageProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            {/* Add PipecatClientAudio for bot audio playback */}
+            <PipecatClientAudio />
+            <AppContent />
+          </TooltipProvider>
+        </ServerMessageProvider>
+      </VoiceSessionProvider>
     </PipecatClientProvider>
   </QueryClientProvider>
 );
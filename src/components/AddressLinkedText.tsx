@@ -0,0 +1,34 @@
+import { Fragment, type ReactNode } from "react";
+import { findAddressMentions } from "@/lib/address-matching";
+import type { Property } from "@/lib/server-messages";
+
+interface AddressLinkedTextProps {
+  text: string;
+  properties: Property[];
+  onSelectProperty: (propertyId: string) => void;
+}
+
+/** Renders text with mentions of loaded properties as links that focus their cards. */
+export function AddressLinkedText({ text, properties, onSelectProperty }: AddressLinkedTextProps) {
+  const mentions = properties.length > 0 ? findAddressMentions(text, properties) : [];
+  if (mentions.length === 0) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  mentions.forEach((mention, index) => {
+    parts.push(<Fragment key={`text-${index}`}>{text.slice(cursor, mention.start)}</Fragment>);
+    parts.push(
+      <button
+        key={`mention-${index}`}
+        type="button"
+        className="underline decoration-dotted underline-offset-2 text-primary hover:decoration-solid"
+        onClick={() => onSelectProperty(mention.property.id)}
+      >
+        {text.slice(mention.start, mention.end)}
+      </button>
+    );
+    cursor = mention.end;
+  });
+  parts.push(<Fragment key="text-end">{text.slice(cursor)}</Fragment>);
+  return <>{parts}</>;
+}
@@ -0,0 +1,34 @@
+import { parseAnalysis } from "@/lib/ai-analysis";
+import { useTranslation } from "@/hooks/use-translation";
+
+interface AiAnalysisProps {
+  analysis: string | null | undefined;
+}
+
+export function AiAnalysis({ analysis }: AiAnalysisProps) {
+  const sections = parseAnalysis(analysis);
+  const { t } = useTranslation();
+
+  if (sections.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t("property.noAnalysis")}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sections.map((section, index) => (
+        <div key={index}>
+          {section.heading && <h4 className="text-sm font-semibold mb-1">{section.heading}</h4>}
+          {section.lines.length > 1 ? (
+            <ul className="list-disc pl-5 text-sm space-y-0.5">
+              {section.lines.map((line, lineIndex) => (
+                <li key={lineIndex}>{line}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm">{section.lines[0]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
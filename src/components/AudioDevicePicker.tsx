@@ -0,0 +1,87 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Headphones, Mic, RefreshCw, Volume2 } from "lucide-react";
+import { useAudioDeviceFallback, useAudioDevices } from "@/hooks/use-audio-devices";
+import { useTranslation } from "@/hooks/use-translation";
+
+interface DeviceGroupProps {
+  devices: MediaDeviceInfo[];
+  selected: MediaDeviceInfo | null;
+  onSelect: (device: MediaDeviceInfo) => void;
+}
+
+function DeviceGroup({ devices, selected, onSelect }: DeviceGroupProps) {
+  const { t } = useTranslation();
+
+  if (devices.length === 0) {
+    return <DropdownMenuItem disabled>{t("devices.none")}</DropdownMenuItem>;
+  }
+
+  return (
+    <DropdownMenuRadioGroup
+      value={selected?.deviceId ?? ""}
+      onValueChange={(deviceId) => {
+        const device = devices.find((candidate) => candidate.deviceId === deviceId);
+        if (device) onSelect(device);
+      }}
+    >
+      {devices.map((device, index) => (
+        <DropdownMenuRadioItem key={device.deviceId || index} value={device.deviceId} className="max-w-xs">
+          <span className="truncate">{device.label || t("devices.numbered", { index: index + 1 })}</span>
+        </DropdownMenuRadioItem>
+      ))}
+    </DropdownMenuRadioGroup>
+  );
+}
+
+/** Header menu for the call's microphone and speaker; also keeps them in use across unplugs. */
+export function AudioDevicePicker() {
+  const { t } = useTranslation();
+  const { mics, speakers, selectedMic, selectedSpeaker, selectMic, selectSpeaker, detectDevices } = useAudioDevices();
+  useAudioDeviceFallback();
+
+  // Without mic permission the browser lists devices without names
+  const needsDetection = mics.length === 0 || mics.every((mic) => !mic.label);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1">
+          <Headphones className="w-4 h-4" />
+          <span className="sr-only">{t("devices.title")}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel className="flex items-center gap-2">
+          <Mic className="w-4 h-4" />
+          {t("devices.microphone")}
+        </DropdownMenuLabel>
+        <DeviceGroup devices={mics} selected={selectedMic} onSelect={selectMic} />
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="flex items-center gap-2">
+          <Volume2 className="w-4 h-4" />
+          {t("devices.speaker")}
+        </DropdownMenuLabel>
+        <DeviceGroup devices={speakers} selected={selectedSpeaker} onSelect={selectSpeaker} />
+        {needsDetection && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => detectDevices()}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {t("devices.detect")}
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
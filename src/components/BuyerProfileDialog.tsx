@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Wallet } from "lucide-react";
+import { useBuyerProfile } from "@/hooks/use-buyer-profile";
+import { useTranslation } from "@/hooks/use-translation";
+import type { MessageKey } from "@/lib/i18n";
+import { DEFAULT_ANNUAL_RATE, DEFAULT_TERM_YEARS } from "@/lib/mortgage";
+import type { BuyerProfile } from "@/lib/buyer-profile";
+
+const EMPTY_PROFILE: BuyerProfile = {
+  annual_income: 0,
+  max_budget: 0,
+  down_payment: 0,
+  annual_rate: DEFAULT_ANNUAL_RATE,
+  term_years: DEFAULT_TERM_YEARS,
+};
+
+const FIELDS: Array<{ key: keyof BuyerProfile; label: MessageKey; step: number }> = [
+  { key: "annual_income", label: "buyer.income", step: 1000 },
+  { key: "max_budget", label: "buyer.maxBudget", step: 10000 },
+  { key: "down_payment", label: "buyer.downPayment", step: 1000 },
+  { key: "annual_rate", label: "buyer.rate", step: 0.125 },
+  { key: "term_years", label: "buyer.term", step: 5 },
+];
+
+export function BuyerProfileDialog() {
+  const { profile, saveProfile, clearProfile } = useBuyerProfile();
+  const [open, setOpen] = useState(false);
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<BuyerProfile>(profile ?? EMPTY_PROFILE);
+
+  useEffect(() => {
+    if (open) setDraft(profile ?? EMPTY_PROFILE);
+  }, [open, profile]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveProfile(draft);
+    setOpen(false);
+  };
+
+  const handleClear = () => {
+    clearProfile();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant={profile ? "secondary" : "outline"} size="sm">
+          <Wallet className="w-4 h-4 mr-1" />
+          {t("buyer.title")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{t("buyer.title")}</DialogTitle>
+            <DialogDescription>
+              {t("buyer.description")}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            {FIELDS.map(({ key, label, step }) => (
+              <div key={key} className="space-y-1.5">
+                <Label htmlFor={`buyer-${key}`}>{t(label)}</Label>
+                <Input
+                  id={`buyer-${key}`}
+                  type="number"
+                  min={0}
+                  step={step}
+                  value={draft[key]}
+                  onChange={(e) => setDraft({ ...draft, [key]: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            {profile && (
+              <Button type="button" variant="ghost" className="mr-auto" onClick={handleClear}>
+                {t("buyer.clear")}
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit">{t("common.save")}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
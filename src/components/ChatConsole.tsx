@@ -4,30 +4,49 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Send, Bot, User, Search, Clock, Mic, MicOff, Phone, PhoneOff } from "lucide-react";
-import { usePipecatClient, useRTVIClientEvent, usePipecatClientMicControl, usePipecatClientTransportState } from "@pipecat-ai/client-react";
-import { RTVIEvent, TransportState } from "@pipecat-ai/client-js";
-
-interface Message {
-  id: string;
-  text: string;
-  timestamp: Date;
-  isOwn: boolean;
-  type: 'text' | 'transcription';
-}
+import { usePipecatClient, useRTVIClientEvent, usePipecatClientMicControl } from "@pipecat-ai/client-react";
+import { RTVIEvent } from "@pipecat-ai/client-js";
+import { useVoiceSession } from "@/hooks/use-voice-session";
+import { MAX_RECONNECT_ATTEMPTS, STATUS_DOT_STYLES, VOICE_STATUS_LABELS } from "@/lib/voice-session";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useChatSettings } from "@/hooks/use-chat-settings";
+import { useConnectionProfiles } from "@/hooks/use-connection-profiles";
+import { getLanguage, useTranslation } from "@/hooks/use-translation";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useSearchUrlState } from "@/hooks/use-search-url-state";
+import { findAddressMentions } from "@/lib/address-matching";
+import { appendBotFragment, closeBotTurn, type ChatMessage } from "@/lib/chat-transcript";
+import { sendResumeSession } from "@/lib/client-messages";
+import { buildConnectRequest } from "@/lib/connection-profiles";
+import { filtersFromApplied } from "@/lib/property-filters";
+import { buildResumeContext, isEmptyResumeContext } from "@/lib/session-resume";
+import type { Property, SearchResultData } from "@/lib/server-messages";
+import { AddressLinkedText } from "./AddressLinkedText";
 
 interface ChatConsoleProps {
   onSearch?: (query: string) => void;
-  pipecatEndpoint?: string;
+  /** Current results; addresses of these in bot messages become links */
+  properties?: Property[];
+  onFocusProperty?: (propertyId: string) => void;
+  /** Restored to the bot, with the transcript, when a dropped call resumes */
+  lastSearch?: SearchResultData | null;
 }
 
 export function ChatConsole({
   onSearch,
-  pipecatEndpoint = "/api/connect"
+  properties = [],
+  onFocusProperty,
+  lastSearch = null,
 }: ChatConsoleProps) {
-  const [messages, setMessages] = useState<Message[]>([{
+  const { t } = useTranslation();
+  const messageText = (message: ChatMessage) => (message.textKey ? t(message.textKey) : message.text);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [{
     id: 'welcome-1',
-    text: 'Hello! I\'m your real estate assistant. I can help you search for properties. You can speak to me or type your questions!',
+    text: '',
+    textKey: "chat.welcome",
     timestamp: new Date(),
     isOwn: false,
     type: 'text'
@@ -35,22 +54,54 @@ export function ChatConsole({
   const [newMessage, setNewMessage] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // What the user is saying right now, replaced by the final transcript
+  const [interimTranscript, setInterimTranscript] = useState<string | null>(null);
+  const { settings: chatSettings, updateChatSettings } = useChatSettings();
+  const showInterim = chatSettings.show_interim_transcripts;
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
+  // Read from the transcript handler without re-subscribing on every new result set
+  const propertiesRef = useRef(properties);
+  propertiesRef.current = properties;
+  const onFocusPropertyRef = useRef(onFocusProperty);
+  onFocusPropertyRef.current = onFocusProperty;
+
+  // Id of the bubble for the bot turn in progress, from its first fragment until the bot stops speaking
+  const botTurnIdRef = useRef<string | null>(null);
+
   // Pipecat hooks
   const pipecatClient = usePipecatClient();
   const { enableMic, isMicEnabled } = usePipecatClientMicControl();
-  const transportState = usePipecatClientTransportState();
+  const { status, transportState, isConnected, isConnecting, retryCount, isResumed, connect, disconnect } = useVoiceSession();
+  const { formatTime } = useFormatting();
+  const { favorites } = useFavorites();
+  const { activeProfile } = useConnectionProfiles();
+  const { filterOverrides } = useSearchUrlState();
+
+  // The bot starts a resumed call with an empty context; catch it up on what the user still sees
+  const resumeSourceRef = useRef({ messages, lastSearch, filterOverrides, favorites });
+  resumeSourceRef.current = { messages, lastSearch, filterOverrides, favorites };
+
+  useEffect(() => {
+    if (status !== "ready" || !isResumed || !pipecatClient) return;
+    const { messages, lastSearch, filterOverrides, favorites } = resumeSourceRef.current;
+    const context = buildResumeContext({
+      turns: messages
+        .filter(message => !message.id.startsWith('welcome-') && !message.id.startsWith('error-'))
+        .map(message => ({ speaker: message.isOwn ? "user" : "assistant", text: message.text })),
+      search: lastSearch,
+      filters: lastSearch ? { ...filtersFromApplied(lastSearch.filters_applied), ...filterOverrides } : null,
+      favorites,
+    });
+    if (isEmptyResumeContext(context)) return;
+    try {
+      sendResumeSession(pipecatClient, context);
+    } catch (error) {
+      console.error("❌ Failed to restore bot context:", error);
+    }
+  }, [status, isResumed, pipecatClient]);
 
   // ✅ SIMPLIFIED: Direct transport state checks
-  const isConnected = transportState === "connected" || transportState === "ready";
-  const isConnecting = transportState === "connecting" || 
-                      transportState === "initializing" || 
-                      transportState === "initialized" || 
-                      transportState === "authenticating" || 
-                      transportState === "authenticated";
-  const isDisconnected = transportState === "disconnected";
-  const hasError = transportState === "error";
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -75,9 +126,14 @@ export function ChatConsole({
       clearTimeout(timeoutId2);
       clearTimeout(timeoutId3);
     };
-  }, [messages, isLoading]);
+  }, [messages, isLoading, interimTranscript]);
 
-  // Listen to user transcription events - FINAL ONLY
+  // A half-finished sentence must not linger after the call ends or the setting is turned off
+  useEffect(() => {
+    if (!isConnected || !showInterim) setInterimTranscript(null);
+  }, [isConnected, showInterim]);
+
+  // Listen to user transcription events; interim ones update the live bubble
   useRTVIClientEvent(RTVIEvent.UserTranscript, useCallback((data: any) => {
     console.log("🎤 User transcription event:", JSON.stringify(data, null, 2));
     const transcriptText = data?.text || data?.data?.text || "";
@@ -86,9 +142,15 @@ export function ChatConsole({
     
     console.log("Parsed transcript:", { transcriptText, isFinal, timestamp });
 
-    if (isFinal && transcriptText && transcriptText.trim()) {
+    if (!isFinal) {
+      if (showInterim && transcriptText.trim()) setInterimTranscript(transcriptText.trim());
+      return;
+    }
+
+    if (transcriptText && transcriptText.trim()) {
       console.log("✅ Adding final user transcript:", transcriptText);
-      const message: Message = {
+      setInterimTranscript(null);
+      const message: ChatMessage = {
         id: `user-transcript-${Date.now()}-${Math.random()}`,
         text: transcriptText.trim(),
         timestamp: new Date(timestamp),
@@ -101,7 +163,7 @@ export function ChatConsole({
         onSearch(transcriptText.trim());
       }
     }
-  }, [onSearch]));
+  }, [onSearch, showInterim]));
 
   // Listen to bot transcription
   useRTVIClientEvent(RTVIEvent.BotTranscript, useCallback((data: any) => {
@@ -110,14 +172,21 @@ export function ChatConsole({
     
     if (transcriptText && transcriptText.trim()) {
       console.log("✅ Adding bot transcript:", transcriptText);
-      const message: Message = {
-        id: `bot-transcript-${Date.now()}-${Math.random()}`,
-        text: transcriptText.trim(),
-        timestamp: new Date(),
-        isOwn: false,
-        type: 'transcription'
-      };
-      setMessages(prev => [...prev, message]);
+      const text = transcriptText.trim();
+      const turnId = botTurnIdRef.current ?? `bot-turn-${Date.now()}-${Math.random()}`;
+      botTurnIdRef.current = turnId;
+      const now = new Date();
+      setMessages(prev => appendBotFragment(prev, turnId, text, now));
+
+      // "The one on Maple Street" points at a card, as long as only one property fits
+      const mentioned = new Set(
+        findAddressMentions(text, propertiesRef.current).map((mention) => mention.property.id)
+      );
+      if (mentioned.size === 1) {
+        const [propertyId] = mentioned;
+        console.log("📍 Bot mentioned property:", propertyId);
+        onFocusPropertyRef.current?.(propertyId);
+      }
     }
   }, []));
 
@@ -140,20 +209,24 @@ export function ChatConsole({
 
   useRTVIClientEvent(RTVIEvent.BotStoppedSpeaking, useCallback(() => {
     console.log("🤖 Bot stopped speaking");
+    const turnId = botTurnIdRef.current;
+    botTurnIdRef.current = null;
+    if (turnId) {
+      const endedAt = new Date();
+      setMessages(prev => closeBotTurn(prev, turnId, endedAt));
+    }
     setIsLoading(false);
   }, []));
 
   // Handle connection/disconnection
   const handleConnectionToggle = async () => {
     try {
-      if (isConnected) {
-        await pipecatClient?.disconnect();
+      // A pending reconnect can be cancelled like a live call
+      if (isConnected || status === "reconnecting") {
+        await disconnect();
       } else {
         setIsLoading(true);
-        await pipecatClient?.connect({
-          endpoint: pipecatEndpoint,
-          requestData: {}
-        });
+        await connect(buildConnectRequest(activeProfile, getLanguage()));
         setIsLoading(false);
       }
     } catch (error) {
@@ -178,7 +251,7 @@ export function ChatConsole({
 
     setNewMessage("");
     try {
-      const userMessage: Message = {
+      const userMessage: ChatMessage = {
         id: `user-text-${Date.now()}`,
         text: messageText,
         timestamp: new Date(),
@@ -198,9 +271,10 @@ export function ChatConsole({
         run_immediately: true
       }).catch(error => {
         console.error("❌ appendToContext failed:", error);
-        const errorMessage: Message = {
+        const errorMessage: ChatMessage = {
           id: `error-${Date.now()}`,
-          text: "Failed to send message. Please try again.",
+          text: '',
+          textKey: "chat.sendFailed",
           timestamp: new Date(),
           isOwn: false,
           type: 'text'
@@ -209,9 +283,10 @@ export function ChatConsole({
       });
     } catch (error) {
       console.error("❌ Failed to process message:", error);
-      const errorMessage: Message = {
+      const errorMessage: ChatMessage = {
         id: `error-${Date.now()}`,
-        text: "Failed to process message. Please try again.",
+        text: '',
+        textKey: "chat.processFailed",
         timestamp: new Date(),
         isOwn: false,
         type: 'text'
@@ -227,36 +302,24 @@ export function ChatConsole({
     }
   };
 
-  const getMessageIcon = (message: Message) => {
+  const getMessageIcon = (message: ChatMessage) => {
     if (message.type === 'transcription' && message.isOwn) {
       return <Mic size={12} className="opacity-70" />;
     }
     return null;
   };
 
-  const getMessageTypeLabel = (message: Message) => {
+  const getMessageTypeLabel = (message: ChatMessage) => {
     if (message.type === 'transcription') {
-      return message.isOwn ? 'You (Spoken)' : 'AI Assistant (Voice)';
+      return message.isOwn ? t("chat.label.youSpoken") : t("chat.label.assistantVoice");
     }
-    return message.isOwn ? 'You (Typed)' : 'AI Assistant';
+    return message.isOwn ? t("chat.label.youTyped") : t("chat.label.assistant");
   };
 
-  // ✅ SIMPLIFIED: Direct status functions using transport state
-  const getConnectionStatusColor = () => {
-    if (isConnected) return 'bg-green-500';
-    if (isConnecting) return 'bg-yellow-500 animate-pulse';
-    if (hasError) return 'bg-red-500 animate-pulse';
-    if (isDisconnected) return 'bg-red-500';
-    return 'bg-gray-500';
-  };
+  const getConnectionStatusColor = () => STATUS_DOT_STYLES[status];
 
-  const getConnectionStatusText = () => {
-    if (isConnected) return 'Connected';
-    if (isConnecting) return 'Connecting...';
-    if (hasError) return 'Error';
-    if (isDisconnected) return 'Disconnected';
-    return transportState || 'Unknown';
-  };
+  const getConnectionStatusText = () =>
+    t(VOICE_STATUS_LABELS[status], { attempt: retryCount, max: MAX_RECONNECT_ATTEMPTS });
 
   return (
     <Card className="h-[50vh] md:h-[60vh] lg:h-[70vh] flex flex-col bg-chat-background">
@@ -264,7 +327,7 @@ export function ChatConsole({
         <CardTitle className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Bot className="w-5 h-5 text-primary" />
-            AI Property Assistant
+            {t("chat.title")}
           </div>
           <div className="flex items-center gap-2">
             {/* Connection status */}
@@ -277,7 +340,7 @@ export function ChatConsole({
             {isListening && (
               <div className="flex items-center gap-1 text-xs text-primary">
                 <div className="w-2 h-2 bg-primary rounded-full animate-pulse" />
-                <span>Listening</span>
+                <span>{t("chat.listening")}</span>
               </div>
             )}
             
@@ -285,15 +348,32 @@ export function ChatConsole({
             {isConnected && (
               <div className="flex items-center gap-1 text-xs">
                 <Mic className={`w-3 h-3 ${isMicEnabled ? 'text-primary' : 'text-muted-foreground'}`} />
-                <span>{isMicEnabled ? 'Mic On' : 'Mic Off'}</span>
+                <span>{isMicEnabled ? t("chat.micOn") : t("chat.micOff")}</span>
               </div>
             )}
           </div>
         </CardTitle>
         
         {/* Debug Info */}
-        <div className="text-xs text-muted-foreground">
-          Messages: {messages.length} | Listening: {isListening ? 'Yes' : 'No'} | Transport: {transportState}
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            {t("chat.debug", {
+              count: messages.length,
+              listening: isListening ? t("common.yes") : t("common.no"),
+              transport: transportState,
+            })}
+          </span>
+          <div className="flex items-center gap-1.5 flex-shrink-0">
+            <Switch
+              id="chat-interim-transcripts"
+              className="scale-75"
+              checked={showInterim}
+              onCheckedChange={(checked) => updateChatSettings({ show_interim_transcripts: checked })}
+            />
+            <Label htmlFor="chat-interim-transcripts" className="text-xs font-normal">
+              {t("chat.liveTranscript")}
+            </Label>
+          </div>
         </div>
       </CardHeader>
       
@@ -304,14 +384,16 @@ export function ChatConsole({
               <div className="text-center text-muted-foreground py-8">
                 {isConnected ? (
                   <>
-                    <p>Connected! Start speaking or type a message.</p>
-                    <p className="text-sm mt-2">The AI will respond in real-time.</p>
-                    <p className="text-xs mt-1 opacity-60">Final transcripts only - no interim display</p>
+                    <p>{t("chat.empty.connected")}</p>
+                    <p className="text-sm mt-2">{t("chat.empty.realtime")}</p>
+                    <p className="text-xs mt-1 opacity-60">
+                      {showInterim ? t("chat.empty.interim") : t("chat.empty.finalOnly")}
+                    </p>
                   </>
                 ) : (
                   <>
-                    <p>Connect to start chatting</p>
-                    <p className="text-sm">AI-powered conversation awaits!</p>
+                    <p>{t("chat.empty.disconnected")}</p>
+                    <p className="text-sm">{t("chat.empty.awaits")}</p>
                   </>
                 )}
               </div>
@@ -338,14 +420,23 @@ export function ChatConsole({
                           {getMessageTypeLabel(message)}
                         </span>
                       </div>
-                      <p className="text-sm leading-relaxed">{message.text}</p>
+                      <p className="text-sm leading-relaxed">
+                        {!message.isOwn && onFocusProperty ? (
+                          <AddressLinkedText
+                            text={messageText(message)}
+                            properties={properties}
+                            onSelectProperty={onFocusProperty}
+                          />
+                        ) : (
+                          messageText(message)
+                        )}
+                      </p>
                       <div className="flex items-center gap-1 mt-2 opacity-70">
                         <Clock className="w-3 h-3" />
                         <span className="text-xs">
-                          {message.timestamp.toLocaleTimeString([], {
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
+                          {formatTime(message.timestamp)}
+                          {message.endedAt && formatTime(message.endedAt) !== formatTime(message.timestamp) &&
+                            ` – ${formatTime(message.endedAt)}`}
                         </span>
                       </div>
                     </div>
@@ -354,6 +445,24 @@ export function ChatConsole({
               ))
             )}
             
+            {/* Live interim transcript */}
+            {interimTranscript && (
+              <div className="flex gap-3 justify-end">
+                <div className="flex gap-2 max-w-[85%] flex-row-reverse">
+                  <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-primary/60">
+                    <User className="w-4 h-4 text-primary-foreground" />
+                  </div>
+                  <div className="p-3 rounded-lg shadow-sm bg-primary/60 text-primary-foreground" aria-live="polite">
+                    <div className="flex items-center gap-1 mb-1">
+                      <Mic size={12} className="opacity-70 animate-pulse" />
+                      <span className="text-xs opacity-70 font-medium">{t("chat.label.youSpeaking")}</span>
+                    </div>
+                    <p className="text-sm leading-relaxed italic">{interimTranscript}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Loading indicator */}
             {isLoading && (
               <div className="flex gap-3 justify-start">
@@ -378,25 +487,25 @@ export function ChatConsole({
         <div className="flex gap-2 justify-center">
           <Button
             onClick={handleConnectionToggle}
-            disabled={isConnecting}
-            variant={isConnected ? "destructive" : "default"}
+            disabled={status === "connecting"}
+            variant={isConnected || status === "reconnecting" ? "destructive" : "default"}
             size="sm"
             className="flex items-center gap-2"
           >
             {isConnecting ? (
               <>
                 <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
-                Connecting...
+                {getConnectionStatusText()}
               </>
             ) : isConnected ? (
               <>
                 <PhoneOff className="w-4 h-4" />
-                Disconnect
+                {t("connection.disconnect")}
               </>
             ) : (
               <>
                 <Phone className="w-4 h-4" />
-                Connect
+                {t("connection.connect")}
               </>
             )}
           </Button>
@@ -411,12 +520,12 @@ export function ChatConsole({
               {isMicEnabled ? (
                 <>
                   <MicOff className="w-4 h-4" />
-                  Mute Mic
+                  {t("chat.muteMic")}
                 </>
               ) : (
                 <>
                   <Mic className="w-4 h-4" />
-                  Enable Mic
+                  {t("chat.enableMic")}
                 </>
               )}
             </Button>
@@ -429,7 +538,7 @@ export function ChatConsole({
             value={newMessage}
             onChange={e => setNewMessage(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder={isConnected ? "Type a message..." : "Connect to start chatting"}
+            placeholder={isConnected ? t("chat.placeholder") : t("chat.empty.disconnected")}
             className="flex-1"
             disabled={!isConnected || isLoading}
           />
@@ -445,21 +554,21 @@ export function ChatConsole({
         {/* Status indicator */}
         <div className="mt-2 text-xs text-muted-foreground text-center">
           {!isConnected ? (
-            <span>Click "Connect" to start voice conversation with AI</span>
+            <span>{t("chat.status.disconnected")}</span>
           ) : isLoading ? (
             <span className="flex items-center justify-center gap-1">
               <div className="w-3 h-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-              AI is responding...
+              {t("chat.status.responding")}
             </span>
           ) : isListening ? (
             <span className="flex items-center justify-center gap-1">
               <Mic size={12} className="animate-pulse" />
-              Voice detected - processing final transcript
+              {t("chat.status.listening")}
             </span>
           ) : isMicEnabled ? (
-            <span>🎤 Voice enabled - speak naturally for AI conversation</span>
+            <span>{t("chat.status.micOn")}</span>
           ) : (
-            <span>Enable microphone for voice chat or type to search properties</span>
+            <span>{t("chat.status.micOff")}</span>
           )}
         </div>
         
@@ -468,26 +577,26 @@ export function ChatConsole({
           <Badge
             variant="outline"
             className="text-xs cursor-pointer hover:bg-muted"
-            onClick={() => setNewMessage("Find me a house with good fencing")}
+            onClick={() => setNewMessage(t("chat.quick.fencing.prompt"))}
           >
             <Search className="w-3 h-3 mr-1" />
-            Good fencing
+            {t("chat.quick.fencing")}
           </Badge>
           <Badge
             variant="outline"
             className="text-xs cursor-pointer hover:bg-muted"
-            onClick={() => setNewMessage("Properties under $500,000")}
+            onClick={() => setNewMessage(t("chat.quick.budget.prompt"))}
           >
             <Search className="w-3 h-3 mr-1" />
-            Under $500k
+            {t("chat.quick.budget")}
           </Badge>
           <Badge
             variant="outline"
             className="text-xs cursor-pointer hover:bg-muted"
-            onClick={() => setNewMessage("Show me 3 bedroom homes")}
+            onClick={() => setNewMessage(t("chat.quick.bedrooms.prompt"))}
           >
             <Search className="w-3 h-3 mr-1" />
-            3 bedrooms
+            {t("chat.quick.bedrooms")}
           </Badge>
         </div>
       </CardContent>
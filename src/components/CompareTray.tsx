@@ -0,0 +1,52 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { GitCompare, X } from "lucide-react";
+import { useComparison } from "@/hooks/use-comparison";
+import { useTranslation } from "@/hooks/use-translation";
+import { MAX_COMPARE, MIN_COMPARE } from "@/lib/property-comparison";
+import { PropertyComparisonDialog } from "./PropertyComparisonDialog";
+
+export function CompareTray() {
+  const { selected, isOpen, removeFromCompare, clearCompare, setComparisonOpen } = useComparison();
+  const { t } = useTranslation();
+
+  if (selected.length === 0) return null;
+
+  return (
+    <>
+      <Card className="border-primary/40">
+        <CardContent className="p-3 flex flex-wrap items-center gap-2">
+          <GitCompare className="w-4 h-4 text-primary" />
+          <span className="text-sm font-medium">
+            {t("compare.tray", { count: selected.length, max: MAX_COMPARE })}
+          </span>
+          {selected.map((property) => (
+            <Badge key={property.id} variant="secondary" className="gap-1 max-w-48">
+              <span className="truncate">{property.details.address}</span>
+              <button onClick={() => removeFromCompare(property.id)} className="hover:text-destructive">
+                <X className="w-3 h-3" />
+                <span className="sr-only">{t("common.remove")}</span>
+              </button>
+            </Badge>
+          ))}
+          <div className="ml-auto flex gap-2">
+            <Button variant="ghost" size="sm" onClick={clearCompare}>
+              {t("common.clear")}
+            </Button>
+            <Button size="sm" onClick={() => setComparisonOpen(true)} disabled={selected.length < MIN_COMPARE}>
+              {t("property.compare")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <PropertyComparisonDialog
+        open={isOpen && selected.length > 0}
+        onOpenChange={setComparisonOpen}
+        properties={selected}
+        onRemove={removeFromCompare}
+      />
+    </>
+  );
+}
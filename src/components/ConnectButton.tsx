@@ -1,77 +1,70 @@
 // Updated ConnectionButton.tsx - Simplified transport state logic
-import { useState, useCallback } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Phone, PhoneOff } from "lucide-react";
-import { usePipecatClient, useRTVIClientEvent, usePipecatClientTransportState } from "@pipecat-ai/client-react";
-import { RTVIEvent, TransportState } from "@pipecat-ai/client-js";
+import { useRTVIClientEvent } from "@pipecat-ai/client-react";
+import { RTVIEvent } from "@pipecat-ai/client-js";
 import { useToast } from "@/hooks/use-toast";
+import { useVoiceSession } from "@/hooks/use-voice-session";
+import { useConnectionProfiles } from "@/hooks/use-connection-profiles";
+import { getLanguage, useTranslation } from "@/hooks/use-translation";
+import { buildConnectRequest } from "@/lib/connection-profiles";
+import { MAX_RECONNECT_ATTEMPTS, type VoiceSessionStatus } from "@/lib/voice-session";
 
 interface ConnectionButtonProps {
   onConnectionChange?: (isConnected: boolean) => void;
 }
 
 export function ConnectionButton({ onConnectionChange }: ConnectionButtonProps) {
-  const [isConnecting, setIsConnecting] = useState(false);
   const { toast } = useToast();
-  
-  const pipecatClient = usePipecatClient();
-  const transportState = usePipecatClientTransportState();
+  const { t } = useTranslation();
+  const { status, transportState, isConnected, isConnecting, retryCount, retryDelayMs, lastError, connect, disconnect } =
+    useVoiceSession();
+  const { activeProfile } = useConnectionProfiles();
 
-  // ✅ SIMPLIFIED: Direct transport state checks
-  const isConnected = transportState === "connected" || transportState === "ready";
-  const isConnecting_State = transportState === "connecting" || 
-                            transportState === "initializing" || 
-                            transportState === "initialized" || 
-                            transportState === "authenticating" || 
-                            transportState === "authenticated";
-  const isDisconnected = transportState === "disconnected";
-  const hasError = transportState === "error";
+  // Notify parent component of connection changes
+  useEffect(() => {
+    onConnectionChange?.(isConnected);
+  }, [isConnected, onConnectionChange]);
 
-  // Listen to transport state changes
-  useRTVIClientEvent(
-    RTVIEvent.TransportStateChanged,
-    useCallback((state: TransportState) => {
-      console.log("🔄 Transport state changed to:", state);
-      
-      // Reset connecting state when we reach a final state
-      if (state === "connected" || state === "ready" || state === "disconnected" || state === "error") {
-        setIsConnecting(false);
-      }
-
-      // ✅ SIMPLIFIED: Direct state check instead of helper function
-      const connected = state === "connected" || state === "ready";
-      
-      // Notify parent component of connection changes
-      if (onConnectionChange) {
-        onConnectionChange(connected);
-      }
+  // Show a toast for each lifecycle step; deliberate disconnects toast from handleDisconnect.
+  // Each reconnect attempt toasts once, keyed on its retry count; a language switch doesn't re-toast.
+  const previousRef = useRef<{ status: VoiceSessionStatus; retryCount: number }>({ status, retryCount });
+  useEffect(() => {
+    const { status: previous, retryCount: previousRetryCount } = previousRef.current;
+    previousRef.current = { status, retryCount };
+    if (previous === status && (status !== "reconnecting" || previousRetryCount === retryCount)) return;
+    console.log("🔄 Voice session status changed to:", status);
 
-      // Show appropriate toasts
-      if (state === "connected") {
-        toast({
-          title: "Connected!",
-          description: "You are now connected to the video call.",
-        });
-      } else if (state === "ready") {
-        toast({
-          title: "Ready!",
-          description: "Bot is ready for conversation.",
-        });
-      } else if (state === "disconnected") {
-        toast({
-          title: "Disconnected",
-          description: "You have been disconnected from the call.",
-          variant: "destructive",
-        });
-      } else if (state === "error") {
-        toast({
-          title: "Connection Error",
-          description: "Failed to connect to the call. Please try again.",
-          variant: "destructive",
-        });
-      }
-    }, [onConnectionChange, toast])
-  );
+    if (status === "connected") {
+      toast({
+        title: t("toast.connected.title"),
+        description: t("toast.connected.description"),
+      });
+    } else if (status === "ready") {
+      toast({
+        title: t("toast.ready.title"),
+        description: t("toast.ready.description"),
+      });
+    } else if (status === "reconnecting") {
+      toast({
+        title: t("toast.reconnecting.title"),
+        description: t("toast.reconnecting.description", {
+          seconds: Math.ceil((retryDelayMs ?? 0) / 1000),
+          attempt: retryCount,
+          max: MAX_RECONNECT_ATTEMPTS,
+        }),
+        variant: "destructive",
+      });
+    } else if (status === "error") {
+      const dropped = previous === "reconnecting";
+      toast({
+        title: dropped ? t("toast.reconnectFailed.title") : t("toast.connectionError.title"),
+        description: dropped ? t("toast.reconnectFailed.description") : t("toast.connectionError.description"),
+        variant: "destructive",
+      });
+    }
+  }, [status, retryCount, retryDelayMs, t, toast]);
 
   // Listen to bot ready event
   useRTVIClientEvent(
@@ -79,39 +72,20 @@ export function ConnectionButton({ onConnectionChange }: ConnectionButtonProps)
     useCallback(() => {
       console.log("🤖 Bot is ready!");
       toast({
-        title: "Bot Ready",
-        description: "The AI assistant is now ready to chat.",
+        title: t("toast.botReady.title"),
+        description: t("toast.botReady.description"),
       });
-    }, [toast])
-  );
-
-  // Listen to client ready event  
-  useRTVIClientEvent(
-    RTVIEvent.Connected,
-    useCallback(() => {
-      console.log("👤 Client is ready!");
-    }, [])
+    }, [toast, t])
   );
 
   const handleConnect = async () => {
     try {
-      setIsConnecting(true);
-      
-      await pipecatClient.connect({
-        endpoint: `${import.meta.env.VITE_PIPECAT_API_URL || "https://manjujayamurali--secondbrain-fastapi-app.modal.run/connect"}`,
-        requestData: {
-          services: {
-            llm: "openai", 
-            tts: "cartesia",
-          },
-        },
-      });
+      await connect(buildConnectRequest(activeProfile, getLanguage()));
     } catch (error) {
       console.error("❌ Connection failed:", error);
-      setIsConnecting(false);
       toast({
-        title: "Connection Failed",
-        description: "Unable to connect to the server. Please check your network and try again.",
+        title: t("toast.connectFailed.title"),
+        description: t("toast.connectFailed.description"),
         variant: "destructive",
       });
     }
@@ -119,58 +93,58 @@ export function ConnectionButton({ onConnectionChange }: ConnectionButtonProps)
 
   const handleDisconnect = async () => {
     try {
-      await pipecatClient.disconnect();
+      await disconnect();
       toast({
-        title: "Call ended",
-        description: "You have disconnected from the call.",
+        title: t("toast.callEnded.title"),
+        description: t("toast.callEnded.description"),
         variant: "destructive",
       });
     } catch (error) {
       console.error("❌ Disconnect failed:", error);
       toast({
-        title: "Disconnect Error",
-        description: "Error while disconnecting. Please refresh the page.",
+        title: t("toast.disconnectError.title"),
+        description: t("toast.disconnectError.description"),
         variant: "destructive",
       });
     }
   };
 
   const handleToggleConnection = () => {
-    if (isConnected) {
+    // A pending reconnect can be cancelled like a live call
+    if (isConnected || status === "reconnecting") {
       handleDisconnect();
     } else {
       handleConnect();
     }
   };
 
-  // ✅ SIMPLIFIED: Use direct state checks
-  const isDisabled = isConnecting || isConnecting_State;
+  const isDisabled = status === "connecting";
 
   return (
     <div className="flex flex-col items-center gap-4">
       <Button
         onClick={handleToggleConnection}
         disabled={isDisabled}
-        variant={isConnected ? "disconnect" : "connect"}
+        variant={isConnected || status === "reconnecting" ? "disconnect" : "connect"}
         size="lg"
         className="px-8 py-4 text-lg font-semibold rounded-full shadow-elegant hover:shadow-glow transition-all duration-300"
       >
-        {isDisabled ? (
+        {isConnecting ? (
           <>
             <div className="w-5 h-5 border-2 border-current border-t-transparent rounded-full animate-spin" />
-            {transportState === "connecting" ? "Connecting..." : 
-             transportState === "ready" ? "Getting Ready..." : 
-             "Initializing..."}
+            {status === "reconnecting"
+              ? t("connection.reconnecting", { attempt: retryCount, max: MAX_RECONNECT_ATTEMPTS })
+              : transportState === "connecting" ? t("connection.connecting") : t("connection.initializing")}
           </>
         ) : isConnected ? (
           <>
             <PhoneOff size={20} />
-            Disconnect
+            {t("connection.disconnect")}
           </>
         ) : (
           <>
             <Phone size={20} />
-            Connect
+            {t("connection.connect")}
           </>
         )}
       </Button>
@@ -178,14 +152,19 @@ export function ConnectionButton({ onConnectionChange }: ConnectionButtonProps)
       <div className="text-center">
         <p className="text-sm text-muted-foreground">
           {isConnected 
-            ? "Click to end the call" 
-            : "Click to start a video call with AI"
+            ? t("connection.hint.end") 
+            : t("connection.hint.start")
           }
         </p>
         <p className="text-xs text-muted-foreground mt-1">
-          Status: {transportState}
+          {t("connection.status", { state: status })}
         </p>
+        {lastError && (status === "error" || status === "reconnecting") && (
+          <p className="text-xs text-destructive mt-1 max-w-xs break-words">
+            {t("connection.lastError", { error: lastError.message })}
+          </p>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
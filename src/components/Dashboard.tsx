@@ -1,103 +1,180 @@
 // Updated Dashboard.tsx - Simplified transport state logic
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
 import { ChatConsole } from "./ChatConsole";
 import { PropertySearchResults } from "./PropertySearchResults";
 import { ConnectionButton } from "./ConnectButton";
+import { SessionRecorderPanel } from "./SessionRecorderPanel";
+import { SavedSearchesSheet } from "./SavedSearchesSheet";
+import { SearchChangesBanner } from "./SearchChangesBanner";
+import { ShortlistView } from "./ShortlistView";
+import { CompareTray } from "./CompareTray";
+import { MarketStatsSummary } from "./MarketStatsSummary";
+import { DisplaySettingsDialog } from "./DisplaySettingsDialog";
+import { LanguageSwitcher } from "./LanguageSwitcher";
+import { AudioDevicePicker } from "./AudioDevicePicker";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Home, MessageSquare, TrendingUp, Users, Mic, MicOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Home, MessageSquare, Mic, MicOff, Heart, Search, Settings } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
-  usePipecatClientTransportState, 
-  usePipecatClientMicControl,
-  useRTVIClientEvent
+  usePipecatClient,
+  usePipecatClientMicControl
 } from "@pipecat-ai/client-react";
-import { TransportState, RTVIEvent } from "@pipecat-ai/client-js";
+import { useVoiceSession } from "@/hooks/use-voice-session";
+import {
+  MAX_RECONNECT_ATTEMPTS,
+  STATUS_DOT_STYLES,
+  VOICE_STATUS_LABELS,
+  type VoiceSessionStatus,
+} from "@/lib/voice-session";
+import { useServerMessageHandler, useServerMessageFallback } from "@/hooks/use-server-messages";
+import { useSavedSearches } from "@/hooks/use-saved-searches";
+import { useToast } from "@/hooks/use-toast";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useTranslation } from "@/hooks/use-translation";
+import { useSearchUrlState } from "@/hooks/use-search-url-state";
+import { usePropertyFocus } from "@/hooks/use-property-focus";
+import type { MarketStatsMessage, SearchResultData } from "@/lib/server-messages";
+import {
+  diffSearchResults,
+  savedSearchToResults,
+  type SavedSearch,
+  type SearchResultsDiff,
+} from "@/lib/saved-searches";
+import { sendRerunSearch } from "@/lib/client-messages";
+import { applyMarketStatsOverride, computeMarketStats } from "@/lib/market-stats";
+import { cacheSearchResults, readCachedResults, readLatestCachedResults } from "@/lib/results-cache";
 
-interface SearchResultData {
-  type: string;
-  timestamp: number;
-  search_id: string;
-  query: string;
-  summary: {
-    total_found: number;
-    showing: number;
-    execution_time: number;
-    search_type: string;
-  };
-  filters_applied: {
-    min_price: number | null;
-    max_price: number | null;
-    bedrooms: number | null;
-    bathrooms: number | null;
-    property_type: string | null;
-    location_keywords: string | null;
-    mls_genuine: boolean | null;
-    ai_analysis_raw: string | null
-  };
-  properties: Array<{
-    id: string;
-    url: string;
-    images: {
-      primary: string;
-      all: string[];
-    };
-    details: {
-      address: string;
-      price: number;
-      currency: string;
-      bedrooms: string;
-      bathrooms: string;
-      type: string;
-      description: string;
-    };
-    metadata: {
-      search_score: number;
-      mls_genuine: boolean;
-      status: string;
-    };
-  }>;
+const showDevTools = import.meta.env.DEV || new URLSearchParams(window.location.search).has("devtools");
+
+const STATUS_BADGE_STYLES: Record<VoiceSessionStatus, string> = {
+  idle: "text-red-600 bg-red-50 border-red-200",
+  connecting: "text-yellow-600 bg-yellow-50 border-yellow-200",
+  connected: "text-green-600 bg-green-50 border-green-200",
+  ready: "text-green-600 bg-green-50 border-green-200",
+  reconnecting: "text-yellow-600 bg-yellow-50 border-yellow-200",
+  error: "text-red-600 bg-red-50 border-red-200",
+};
+
+// A shared link names its result set; a bare URL reopens the latest one
+function restoreResults(searchId: string | null): SearchResultData | null {
+  if (!searchId) return readLatestCachedResults();
+  const cached = readCachedResults(searchId);
+  if (!cached) console.warn(`⚠️ Results for search ${searchId} are not cached in this browser`);
+  return cached;
 }
 
 export function Dashboard() {
-  const [searchQuery, setSearchQuery] = useState<string>("");
+  const { searchId: urlSearchId, query: urlQuery, isOnDashboard, setSearch } = useSearchUrlState();
+  const location = useLocation();
   const [isConnected, setIsConnected] = useState(false);
   
-  // RTVI property search state
-  const [searchResults, setSearchResults] = useState<SearchResultData | null>(null);
+  // RTVI property search state, restored from the URL and results cache on load
+  const [searchResults, setSearchResults] = useState<SearchResultData | null>(() => restoreResults(urlSearchId));
+  const [searchQuery, setSearchQuery] = useState<string>(() => searchResults?.query ?? urlQuery ?? "");
   const [hasError, setHasError] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Saved search being re-run, and how its fresh results compare to the snapshot
+  const [pendingRerun, setPendingRerun] = useState<SavedSearch | null>(null);
+  const [comparison, setComparison] = useState<{ search: SavedSearch; diff: SearchResultsDiff } | null>(null);
+  const { updateSnapshot } = useSavedSearches();
+
+  // Backend market figures layered over the stats computed from results
+  const [marketStatsOverride, setMarketStatsOverride] = useState<MarketStatsMessage | null>(null);
+
+  const [activeView, setActiveView] = useState<"results" | "shortlist">("results");
+  const { favorites } = useFavorites();
+  const { focusProperty } = usePropertyFocus();
+  const { formatNumber, priceScale } = useFormatting();
+  const { t } = useTranslation();
+  const { toast } = useToast();
   
   // Pipecat hooks for status display
-  const transportState = usePipecatClientTransportState();
+  const pipecatClient = usePipecatClient();
+  const { status: voiceStatus, isConnected: connected, retryCount } = useVoiceSession();
   const { isMicEnabled } = usePipecatClientMicControl();
   
-  // Listen for RTVI server messages
-  useRTVIClientEvent(RTVIEvent.ServerMessage, (message: any) => {
-    try {
-      if (message?.type === 'property_search_results') {
-        console.log('📍 Received property search results:', message);
-        setSearchResults(message);
-        setSearchQuery(message.query);
-        setHasError(false);
-      } else if (message?.type === 'property_search_error') {
-        console.error('❌ Property search error:', message.error);
-        setHasError(true);
-        setSearchResults(null);
-      }
-    } catch (error) {
-      console.error('🚨 Error processing server message:', error);
-      setHasError(true);
+  // RTVI server messages arrive validated through the ServerMessageProvider
+  useServerMessageHandler('property_search_results', (message) => {
+    console.log('📍 Received property search results:', message);
+    cacheSearchResults(message);
+    setSearchResults(message);
+    setSearch(message.search_id, message.query);
+    setSearchQuery(message.query);
+    setHasError(false);
+    setErrorMessage(null);
+    setActiveView("results");
+    if (pendingRerun) {
+      setComparison({ search: pendingRerun, diff: diffSearchResults(pendingRerun.results, message) });
+      setPendingRerun(null);
+    } else {
+      setComparison(null);
     }
   });
+
+  useServerMessageHandler('property_search_error', (message) => {
+    console.error('❌ Property search error:', message.error);
+    setHasError(true);
+    setErrorMessage(message.error);
+    setSearchResults(null);
+    // A failed re-run has nothing to compare; the next search must not be diffed against it
+    setPendingRerun(null);
+  });
+
+  useServerMessageHandler('market_stats', (message) => {
+    console.log('📍 Received market stats:', message);
+    setMarketStatsOverride(message);
+  });
+
+  const handleFocusProperty = (propertyId: string) => {
+    setActiveView("results");
+    focusProperty(propertyId);
+  };
+
+  useServerMessageHandler('property_focus', (message) => {
+    console.log('📍 Bot is talking about property:', message.property_id);
+    if (message.search_id && searchResults && message.search_id !== searchResults.search_id) return;
+    handleFocusProperty(message.property_id);
+  });
+
+  // Bot-driven UI actions are carried out by the results view, which needs to be showing
+  useServerMessageHandler('ui_action', () => {
+    setActiveView("results");
+  });
+
+  useServerMessageFallback((error) => {
+    // Malformed ui_action messages are answered to the bot, not shown as a search error
+    if (error.reason !== 'invalid_payload' || error.messageType === 'ui_action') return false;
+    console.error('🚨 Error processing server message:', error);
+    setHasError(true);
+    setErrorMessage(error.message);
+    return true;
+  });
   
-  // ✅ SIMPLIFIED: Direct transport state checks
-  const connected = transportState === "connected" || transportState === "ready";
-  const isConnecting = transportState === "connecting" || 
-                      transportState === "initializing" || 
-                      transportState === "initialized" || 
-                      transportState === "authenticating" || 
-                      transportState === "authenticated";
-  const isDisconnected = transportState === "disconnected";
-  const hasConnectionError = transportState === "error";
+  // Back/forward between searches, or a pasted link, swaps in the cached result set. Only a
+  // change of URL does; a failed search clearing the results must not bring them back.
+  const urlSearchIdRef = useRef(urlSearchId);
+  const shownSearchId = searchResults?.search_id;
+  useEffect(() => {
+    if (urlSearchId === urlSearchIdRef.current) return;
+    urlSearchIdRef.current = urlSearchId;
+    if (!urlSearchId || urlSearchId === shownSearchId) return;
+    const restored = restoreResults(urlSearchId);
+    setSearchResults(restored);
+    setSearchQuery(restored?.query ?? urlQuery ?? "");
+    setHasError(false);
+    setErrorMessage(null);
+    setComparison(null);
+  }, [urlSearchId, urlQuery, shownSearchId]);
+
+  // Results shown under a bare dashboard URL (restored from the cache) get a shareable URL too
+  useEffect(() => {
+    if (isOnDashboard && !urlSearchId && searchResults) setSearch(searchResults.search_id, searchResults.query, { replace: true });
+  }, [isOnDashboard, urlSearchId, searchResults, setSearch]);
 
   // Handle connection state changes from ConnectButton
   const handleConnectionChange = (connectionState: boolean) => {
@@ -108,31 +185,58 @@ export function Dashboard() {
     setSearchQuery(query);
   };
 
-  // ✅ SIMPLIFIED: Direct status functions using transport state
-  const getConnectionStatusText = () => {
-    if (connected) return "Connected";
-    if (isConnecting) return "Connecting...";
-    if (hasConnectionError) return "Error";
-    if (isDisconnected) return "Disconnected";
-    return transportState || "Unknown";
+  const handleOpenSavedSearch = (search: SavedSearch) => {
+    const results = savedSearchToResults(search);
+    cacheSearchResults(results);
+    setSearchResults(results);
+    setSearch(results.search_id, results.query);
+    setSearchQuery(search.query);
+    setHasError(false);
+    setErrorMessage(null);
+    setComparison(null);
+    setActiveView("results");
   };
 
-  const getConnectionStatusColor = () => {
-    if (connected) return "text-green-600 bg-green-50 border-green-200";
-    if (isConnecting) return "text-yellow-600 bg-yellow-50 border-yellow-200";
-    if (hasConnectionError) return "text-red-600 bg-red-50 border-red-200";
-    if (isDisconnected) return "text-red-600 bg-red-50 border-red-200";
-    return "text-gray-600 bg-gray-50 border-gray-200";
+  const handleRerunSavedSearch = (search: SavedSearch) => {
+    if (!pipecatClient) return;
+    try {
+      sendRerunSearch(pipecatClient, {
+        saved_search_id: search.id,
+        query: search.query,
+        filters_applied: search.filters_applied,
+      });
+      setPendingRerun(search);
+      setSearchQuery(search.query);
+    } catch (error) {
+      console.error("❌ Failed to re-run saved search:", error);
+    }
   };
 
-  // Dynamic stats based on search results
-  const getActiveListings = () => {
-    return searchResults?.summary?.total_found || 1247;
+  const handleUpdateSnapshot = () => {
+    if (!comparison || !searchResults) return;
+    try {
+      updateSnapshot(comparison.search.id, searchResults);
+      setComparison(null);
+    } catch {
+      toast({
+        title: t("toast.snapshotUpdateFailed.title"),
+        description: t("toast.storageUnavailable"),
+        variant: "destructive",
+      });
+    }
   };
 
-  const getNewToday = () => {
-    return searchResults ? Math.floor(searchResults.summary.total_found * 0.1) : 89;
-  };
+  const connectionStatusText = t(VOICE_STATUS_LABELS[voiceStatus], { attempt: retryCount, max: MAX_RECONNECT_ATTEMPTS });
+
+  const marketStats = useMemo(() => {
+    const properties = searchResults?.properties ?? [];
+    const scale = priceScale(properties.map((property) => property.details.currency));
+    return applyMarketStatsOverride(
+      computeMarketStats(properties, scale),
+      marketStatsOverride,
+      searchResults?.search_id ?? null
+    );
+  }, [searchResults, marketStatsOverride, priceScale]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -145,8 +249,8 @@ export function Dashboard() {
                 <Home className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h1 className="text-2xl font-bold">RealEstate AI</h1>
-                <p className="text-sm text-muted-foreground">Intelligent Property Search Dashboard</p>
+                <h1 className="text-2xl font-bold">{t("app.name")}</h1>
+                <p className="text-sm text-muted-foreground">{t("app.tagline")}</p>
               </div>
             </div>
             
@@ -155,15 +259,10 @@ export function Dashboard() {
               <div className="flex items-center gap-3">
                 <Badge 
                   variant="outline" 
-                  className={`flex items-center gap-1 ${getConnectionStatusColor()}`}
+                  className={`flex items-center gap-1 ${STATUS_BADGE_STYLES[voiceStatus]}`}
                 >
-                  <div className={`w-2 h-2 rounded-full ${
-                    connected ? 'bg-green-500' : 
-                    isConnecting ? 'bg-yellow-500 animate-pulse' : 
-                    hasConnectionError ? 'bg-red-500 animate-pulse' :
-                    'bg-red-500'
-                  }`} />
-                  {getConnectionStatusText()}
+                  <div className={`w-2 h-2 rounded-full ${STATUS_DOT_STYLES[voiceStatus]}`} />
+                  {connectionStatusText}
                 </Badge>
                 
                 {connected && (
@@ -176,39 +275,52 @@ export function Dashboard() {
                     {isMicEnabled ? (
                       <>
                         <Mic className="w-3 h-3" />
-                        Voice Active
+                        {t("dashboard.voiceActive")}
                       </>
                     ) : (
                       <>
                         <MicOff className="w-3 h-3" />
-                        Voice Off
+                        {t("dashboard.voiceOff")}
                       </>
                     )}
                   </Badge>
                 )}
               </div>
 
-              {/* Dynamic Stats */}
-              <div className="flex items-center gap-3">
-                <div className="text-center">
-                  <div className="text-lg font-semibold text-primary">{getActiveListings().toLocaleString()}</div>
-                  <div className="text-xs text-muted-foreground">
-                    {searchResults ? 'Found Properties' : 'Active Listings'}
-                  </div>
-                </div>
-                <div className="text-center">
-                  <div className="text-lg font-semibold text-accent">{getNewToday()}</div>
-                  <div className="text-xs text-muted-foreground">
-                    {searchResults ? 'High Score' : 'New Today'}
-                  </div>
-                </div>
-              </div>
+              {(searchResults || marketStatsOverride) && <MarketStatsSummary stats={marketStats} />}
               
-              <Badge variant="outline" className="flex items-center gap-1">
-                <TrendingUp className="w-3 h-3" />
-                Market Up 2.3%
-              </Badge>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-1"
+                onClick={() => setActiveView("shortlist")}
+              >
+                <Heart className={`w-4 h-4 ${favorites.length > 0 ? 'fill-red-500 text-red-500' : ''}`} />
+                {t("shortlist.title")}
+                {favorites.length > 0 && (
+                  <Badge variant="secondary" className="ml-1 h-5 px-1.5">{favorites.length}</Badge>
+                )}
+              </Button>
+
+              <SavedSearchesSheet
+                canRerun={connected}
+                onOpenSearch={handleOpenSavedSearch}
+                onRerunSearch={handleRerunSavedSearch}
+              />
               
+              <LanguageSwitcher />
+
+              <DisplaySettingsDialog />
+
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/settings" state={{ from: `${location.pathname}${location.search}` }}>
+                  <Settings className="w-4 h-4" />
+                  <span className="sr-only">{t("settings.open")}</span>
+                </Link>
+              </Button>
+
+              <AudioDevicePicker />
+
               <ConnectionButton onConnectionChange={handleConnectionChange} />
             </div>
           </div>
@@ -218,17 +330,19 @@ export function Dashboard() {
             <div className="mt-3 pt-3 border-t">
               <div className="flex items-center gap-2">
                 <Badge variant="secondary" className="text-sm">
-                  Current Search: "{searchQuery}"
+                  {t("dashboard.currentSearch", { query: searchQuery })}
                 </Badge>
                 {connected && (
                   <Badge variant="outline" className="text-xs">
                     <MessageSquare className="w-3 h-3 mr-1" />
-                    Voice Search Active
+                    {t("dashboard.voiceSearchActive")}
                   </Badge>
                 )}
                 {searchResults && (
                   <Badge variant="outline" className="text-xs">
-                    🎯 {searchResults.summary.execution_time}s search time
+                    🎯 {t("dashboard.searchTime", {
+                      seconds: formatNumber(searchResults.summary.execution_time, { maximumFractionDigits: 2 }),
+                    })}
                   </Badge>
                 )}
               </div>
@@ -241,18 +355,49 @@ export function Dashboard() {
       <div className="container mx-auto px-6 py-6">
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 h-[calc(100vh-140px)]">
           {/* Main Content Area */}
-          <div className="lg:col-span-3 overflow-auto">
-            <PropertySearchResults 
-              searchResults={searchResults} 
-              hasError={hasError} 
-            />
+          <div className="lg:col-span-3 overflow-auto space-y-4">
+            {showDevTools && <SessionRecorderPanel />}
+            {comparison && (
+              <SearchChangesBanner
+                search={comparison.search}
+                diff={comparison.diff}
+                onUpdateSnapshot={handleUpdateSnapshot}
+                onDismiss={() => setComparison(null)}
+              />
+            )}
+            <CompareTray />
+            <Tabs value={activeView} onValueChange={(value) => setActiveView(value as "results" | "shortlist")}>
+              <TabsList>
+                <TabsTrigger value="results" className="flex items-center gap-1">
+                  <Search className="w-4 h-4" />
+                  {t("results.title")}
+                </TabsTrigger>
+                <TabsTrigger value="shortlist" className="flex items-center gap-1">
+                  <Heart className="w-4 h-4" />
+                  {t("shortlist.tab", { count: favorites.length })}
+                </TabsTrigger>
+              </TabsList>
+              {/* Kept mounted so it can handle ui_action messages from the shortlist tab */}
+              <TabsContent value="results" forceMount className="data-[state=inactive]:hidden">
+                <PropertySearchResults 
+                  searchResults={searchResults} 
+                  hasError={hasError} 
+                  errorMessage={errorMessage}
+                />
+              </TabsContent>
+              <TabsContent value="shortlist">
+                <ShortlistView />
+              </TabsContent>
+            </Tabs>
           </div>
 
           {/* Chat Console */}
           <div className="lg:col-span-1">
             <ChatConsole 
               onSearch={handleSearch}
-              pipecatEndpoint={import.meta.env.VITE_PIPECAT_API_URL || "https://https://manjujayamurali--secondbrain-fastapi-app.modal.run/connect"}
+              properties={searchResults?.properties}
+              onFocusProperty={handleFocusProperty}
+              lastSearch={searchResults}
             />
           </div>
         </div>
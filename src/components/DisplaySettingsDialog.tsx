@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Globe } from "lucide-react";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useTranslation } from "@/hooks/use-translation";
+import { DEFAULT_CURRENCY_RATES, LOCALE_OPTIONS, createFormatters, type FormatSettings } from "@/lib/formatting";
+
+const BROWSER = "browser";
+const LISTING = "listing";
+
+const SAMPLE_PRICE = 485000;
+
+export function DisplaySettingsDialog() {
+  const { settings, updateFormatSettings } = useFormatting();
+  const [open, setOpen] = useState(false);
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<FormatSettings>(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const preview = createFormatters(draft);
+  const currencies = Object.keys(draft.rates);
+
+  const updateRate = (currency: string, value: string) => {
+    const rate = Number(value);
+    if (!rate || rate <= 0) return;
+    setDraft({ ...draft, rates: { ...draft.rates, [currency]: rate } });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFormatSettings(draft);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1">
+          <Globe className="w-4 h-4" />
+          <span className="sr-only">{t("display.title")}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{t("display.title")}</DialogTitle>
+            <DialogDescription>
+              {t("display.description", {
+                preview: `${preview.formatPrice(SAMPLE_PRICE, "USD")} · ${preview.formatDate(Date.now())} ${preview.formatTime(Date.now())}`,
+              })}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-1.5">
+            <Label>{t("display.locale")}</Label>
+            <Select
+              value={draft.locale ?? BROWSER}
+              onValueChange={(value) => setDraft({ ...draft, locale: value === BROWSER ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BROWSER}>{t("display.browserDefault")}</SelectItem>
+                {LOCALE_OPTIONS.map((locale) => (
+                  <SelectItem key={locale} value={locale}>
+                    {locale}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>{t("display.currency")}</Label>
+            <Select
+              value={draft.display_currency ?? LISTING}
+              onValueChange={(value) => setDraft({ ...draft, display_currency: value === LISTING ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={LISTING}>{t("display.listingCurrency")}</SelectItem>
+                {currencies.map((currency) => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{t("display.rates")}</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft({ ...draft, rates: DEFAULT_CURRENCY_RATES })}
+              >
+                {t("common.reset")}
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {currencies.map((currency) => (
+                <div key={currency} className="flex items-center gap-2">
+                  <span className="w-10 text-sm font-mono text-muted-foreground">{currency}</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    defaultValue={draft.rates[currency]}
+                    key={`${currency}-${draft.rates[currency]}`}
+                    onBlur={(e) => updateRate(currency, e.target.value)}
+                    disabled={currency === "USD"}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit">{t("common.save")}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
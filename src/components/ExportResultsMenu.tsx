@@ -0,0 +1,70 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileJson, FileSpreadsheet, FileText } from "lucide-react";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useTranslation } from "@/hooks/use-translation";
+import {
+  buildBrochureHtml,
+  downloadFile,
+  exportFilename,
+  openBrochure,
+  propertiesToCsv,
+  type ExportFormat,
+} from "@/lib/results-export";
+import type { SearchResultData } from "@/lib/server-messages";
+
+interface ExportResultsMenuProps {
+  /** Results narrowed to the properties currently shown */
+  results: SearchResultData;
+}
+
+export function ExportResultsMenu({ results }: ExportResultsMenuProps) {
+  const formatters = useFormatting();
+  const { t, language } = useTranslation();
+
+  const handleExport = (format: ExportFormat) => {
+    console.log(`📤 Exporting ${results.properties.length} properties as ${format}`);
+    switch (format) {
+      case "csv":
+        // BOM so spreadsheet apps read the file as UTF-8
+        downloadFile(exportFilename(results.query, "csv"), `\uFEFF${propertiesToCsv(results.properties)}`, "text/csv");
+        break;
+      case "json":
+        downloadFile(exportFilename(results.query, "json"), JSON.stringify(results, null, 2), "application/json");
+        break;
+      case "brochure":
+        openBrochure(exportFilename(results.query, "html"), buildBrochureHtml(results, { t, formatters, language }));
+        break;
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={results.properties.length === 0}>
+          <Download className="w-4 h-4 mr-1" />
+          {t("export.button")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onSelect={() => handleExport("csv")}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          {t("export.csv")}
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("json")}>
+          <FileJson className="w-4 h-4 mr-2" />
+          {t("export.json")}
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("brochure")}>
+          <FileText className="w-4 h-4 mr-2" />
+          {t("export.brochure")}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
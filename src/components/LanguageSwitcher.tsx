@@ -0,0 +1,24 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Languages } from "lucide-react";
+import { useTranslation } from "@/hooks/use-translation";
+import { LANGUAGES, type Language } from "@/lib/i18n";
+
+export function LanguageSwitcher() {
+  const { language, setLanguage, t } = useTranslation();
+
+  return (
+    <Select value={language} onValueChange={(value) => setLanguage(value as Language)}>
+      <SelectTrigger className="h-9 w-auto gap-1" aria-label={t("language.label")}>
+        <Languages className="w-4 h-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(LANGUAGES) as Language[]).map((code) => (
+          <SelectItem key={code} value={code}>
+            {LANGUAGES[code]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,82 @@
+import { Badge } from "@/components/ui/badge";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useTranslation } from "@/hooks/use-translation";
+import { HIGH_SCORE_THRESHOLD, type MarketStats } from "@/lib/market-stats";
+
+interface MarketStatsSummaryProps {
+  stats: MarketStats;
+}
+
+export function MarketStatsSummary({ stats }: MarketStatsSummaryProps) {
+  const { formatPrice: formatMoney, formatNumber, formatPercent } = useFormatting();
+  const { t } = useTranslation();
+  const formatPrice = (price: number | null, currency: string) =>
+    price === null ? "—" : formatMoney(price, currency, { compact: true });
+  const formatShare = (share: number | null) => (share === null ? "—" : formatPercent(share));
+
+  const rows: Array<[string, string]> = [
+    [t("stats.listings"), formatNumber(stats.total_listings)],
+    [t("stats.medianPrice"), formatPrice(stats.median_price, stats.currency)],
+    [t("stats.meanPrice"), formatPrice(stats.mean_price, stats.currency)],
+    [t("stats.priceRange"), `${formatPrice(stats.min_price, stats.currency)} – ${formatPrice(stats.max_price, stats.currency)}`],
+    [t("stats.active"), formatNumber(stats.active_count)],
+    [t("stats.otherStatus"), formatNumber(stats.other_status_count)],
+    [t("stats.mlsVerified"), formatShare(stats.mls_verified_share)],
+    [t("stats.highScoreThreshold", { threshold: formatPercent(HIGH_SCORE_THRESHOLD) }), formatNumber(stats.high_score_count)],
+  ];
+
+  return (
+    <div className="flex items-center gap-3">
+      <HoverCard openDelay={150}>
+        <HoverCardTrigger asChild>
+          <button className="flex items-center gap-3 cursor-default">
+            <div className="text-center">
+              <div className="text-lg font-semibold text-primary">{formatPrice(stats.median_price, stats.currency)}</div>
+              <div className="text-xs text-muted-foreground">{t("stats.medianPrice")}</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-semibold text-primary">
+                {formatNumber(stats.active_count)}
+                <span className="text-sm text-muted-foreground">/{formatNumber(stats.total_listings)}</span>
+              </div>
+              <div className="text-xs text-muted-foreground">{t("stats.active")}</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-semibold text-accent">{formatNumber(stats.high_score_count)}</div>
+              <div className="text-xs text-muted-foreground">{t("stats.highScore")}</div>
+            </div>
+          </button>
+        </HoverCardTrigger>
+        <HoverCardContent className="w-72">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold">{t("stats.title")}</h4>
+              <Badge variant="outline" className="text-xs">
+                {stats.from_server ? t("stats.source.server") : t("stats.source.results")}
+              </Badge>
+            </div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              {rows.map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-muted-foreground">{label}</dt>
+                  <dd className="text-right font-medium">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </HoverCardContent>
+      </HoverCard>
+
+      {stats.price_change_percent !== null && (
+        <Badge variant="outline" className="flex items-center gap-1">
+          {stats.price_change_percent >= 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+          {t(stats.price_change_percent >= 0 ? "stats.marketUp" : "stats.marketDown", {
+            percent: formatPercent(Math.abs(stats.price_change_percent) / 100, 1),
+          })}
+        </Badge>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { Property } from "@/lib/server-messages";
+import {
+  amortizationSchedule,
+  calculateMortgage,
+  defaultMortgageInputs,
+  type MortgageInputs,
+} from "@/lib/mortgage";
+import { assessAffordability } from "@/lib/buyer-profile";
+import { useBuyerProfile } from "@/hooks/use-buyer-profile";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useTranslation } from "@/hooks/use-translation";
+import type { MessageKey } from "@/lib/i18n";
+
+interface MortgageCalculatorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  property: Property;
+}
+
+const FIELDS: Array<{ key: keyof MortgageInputs; label: MessageKey; step: number }> = [
+  { key: "price", label: "mortgage.price", step: 1000 },
+  { key: "down_payment", label: "mortgage.downPayment", step: 1000 },
+  { key: "annual_rate", label: "mortgage.rate", step: 0.125 },
+  { key: "term_years", label: "mortgage.term", step: 5 },
+  { key: "annual_taxes", label: "mortgage.taxesPerYear", step: 100 },
+  { key: "annual_insurance", label: "mortgage.insurancePerYear", step: 100 },
+];
+
+export function MortgageCalculatorDialog({ open, onOpenChange, property }: MortgageCalculatorDialogProps) {
+  const { profile } = useBuyerProfile();
+  const { formatPrice, priceScale } = useFormatting();
+  const { t } = useTranslation();
+  const chartConfig = {
+    principal: { label: t("mortgage.principal"), color: "hsl(var(--primary))" },
+    interest: { label: t("mortgage.interest"), color: "hsl(var(--accent))" },
+  } satisfies ChartConfig;
+  const currency = property.details.currency;
+  const [inputs, setInputs] = useState<MortgageInputs>(() => defaultMortgageInputs(property.details.price));
+
+  // Start from the buyer's own terms when they have saved a profile
+  useEffect(() => {
+    if (!open) return;
+    const defaults = defaultMortgageInputs(property.details.price);
+    setInputs(
+      profile
+        ? {
+            ...defaults,
+            down_payment: Math.min(profile.down_payment, property.details.price),
+            annual_rate: profile.annual_rate,
+            term_years: profile.term_years,
+          }
+        : defaults
+    );
+  }, [open, property.details.price, profile]);
+
+  const breakdown = useMemo(() => calculateMortgage(inputs), [inputs]);
+  const schedule = useMemo(() => amortizationSchedule(inputs), [inputs]);
+  const affordability = profile ? assessAffordability(property, profile, priceScale([currency])) : null;
+
+  // Inputs are in the listing's currency, so results stay in it too
+  const formatMoney = (value: number) => formatPrice(value, currency, { convert: false });
+  const formatCompact = (value: number) => formatPrice(value, currency, { convert: false, compact: true });
+
+  const update = (key: keyof MortgageInputs, value: string) => {
+    setInputs((current) => ({ ...current, [key]: Math.max(0, Number(value) || 0) }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("mortgage.title")}</DialogTitle>
+          <DialogDescription>{property.details.address}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="grid grid-cols-2 gap-3">
+            {FIELDS.map(({ key, label, step }) => (
+              <div key={key} className="space-y-1.5">
+                <Label htmlFor={`mortgage-${key}`}>{t(label)}</Label>
+                <Input
+                  id={`mortgage-${key}`}
+                  type="number"
+                  min={0}
+                  step={step}
+                  value={inputs[key]}
+                  onChange={(e) => update(key, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="rounded-lg border p-4">
+              <p className="text-sm text-muted-foreground">{t("mortgage.monthlyPayment")}</p>
+              <p className="text-3xl font-bold text-price-highlight">{formatMoney(breakdown.monthly_total)}</p>
+              {affordability && (
+                <Badge variant="outline" className="mt-2">
+                  {t("mortgage.forProfile", { level: t(`affordability.${affordability.level}`) })}
+                </Badge>
+              )}
+            </div>
+            <dl className="grid grid-cols-2 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">{t("mortgage.principalInterest")}</dt>
+              <dd className="text-right">{formatMoney(breakdown.monthly_principal_interest)}</dd>
+              <dt className="text-muted-foreground">{t("mortgage.taxes")}</dt>
+              <dd className="text-right">{formatMoney(breakdown.monthly_taxes)}</dd>
+              <dt className="text-muted-foreground">{t("mortgage.insurance")}</dt>
+              <dd className="text-right">{formatMoney(breakdown.monthly_insurance)}</dd>
+              <dt className="text-muted-foreground">{t("mortgage.loanAmount")}</dt>
+              <dd className="text-right">{formatMoney(breakdown.loan_amount)}</dd>
+              <dt className="text-muted-foreground">{t("mortgage.totalInterest")}</dt>
+              <dd className="text-right">{formatMoney(breakdown.total_interest)}</dd>
+            </dl>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium">{t("mortgage.amortization")}</h4>
+          <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+            <BarChart data={schedule} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="year" tickLine={false} axisLine={false} />
+              <YAxis width={56} tickLine={false} axisLine={false} tickFormatter={formatCompact} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => t("mortgage.year", { year: payload?.[0]?.payload?.year })} />}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="principal" stackId="payment" fill="var(--color-principal)" />
+              <Bar dataKey="interest" stackId="payment" fill="var(--color-interest)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,50 +2,70 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { ExternalLink, Bed, Bath, MapPin, ImageIcon, Key } from "lucide-react";
-import { useState } from "react";
-
-interface Property {
-  id: string;
-  url: string;
-  images: {
-    primary: string;
-    all: string[];
-  };
-  details: {
-    address: string;
-    price: number;
-    currency: string;
-    bedrooms: string;
-    bathrooms: string;
-    type: string;
-    description: string;
-  };
-  metadata: {
-    search_score: number;
-    mls_genuine: boolean;
-    status: string;
-  };
-}
+import { ExternalLink, Bed, Bath, MapPin, ImageIcon, Key, Heart, GitCompare, Calculator } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import type { Property } from "@/lib/server-messages";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useComparison } from "@/hooks/use-comparison";
+import { useBuyerProfile } from "@/hooks/use-buyer-profile";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useTranslation } from "@/hooks/use-translation";
+import { assessAffordability, type Affordability } from "@/lib/buyer-profile";
+import { AiAnalysis } from "./AiAnalysis";
+import { MortgageCalculatorDialog } from "./MortgageCalculatorDialog";
 
 interface PropertyCardProps {
   property: Property;
   aiAnalysis?: string | null;
+  /** Query that produced this card, remembered with the favorite */
+  searchQuery?: string | null;
+  /** Show how the price fits the saved buyer profile, if there is one */
+  showAffordability?: boolean;
+  /** Controls the analysis dialog; the dashboard keeps this in the URL */
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
+  /** Briefly pulses the card, e.g. when the bot points at it */
+  highlighted?: boolean;
 }
 
-export function PropertyCard({ property, aiAnalysis }: PropertyCardProps) {
+const AFFORDABILITY_STYLES: Record<Affordability, string> = {
+  affordable: "text-green-700 bg-green-50 border-green-200",
+  stretch: "text-yellow-700 bg-yellow-50 border-yellow-200",
+  over_budget: "text-red-700 bg-red-50 border-red-200",
+};
+
+export function PropertyCard({
+  property,
+  aiAnalysis,
+  searchQuery = null,
+  showAffordability = false,
+  selected = false,
+  onSelectedChange,
+  highlighted = false,
+}: PropertyCardProps) {
   const { details, metadata, url, images } = property;
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const favorited = isFavorite(property.id);
+  const { isSelected, isFull, toggleCompare } = useComparison();
+  const comparing = isSelected(property.id);
+  const { profile } = useBuyerProfile();
+  const [isCalculatorOpen, setIsCalculatorOpen] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
   const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: details.currency,
-      maximumFractionDigits: 0,
-    }).format(price);
-  };
+  const { formatPrice: formatMoney, formatPercent, priceScale } = useFormatting();
+  const formatPrice = (price: number) => formatMoney(price, details.currency);
+  const profileScale = priceScale([details.currency]);
+  const affordability = showAffordability && profile ? assessAffordability(property, profile, profileScale) : null;
+  const { t } = useTranslation();
+  const location = useLocation();
+
+  const cardRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    if (selected || highlighted) cardRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [selected, highlighted]);
 
   const handleImageLoad = () => {
     setImageLoading(false);
@@ -57,14 +77,19 @@ export function PropertyCard({ property, aiAnalysis }: PropertyCardProps) {
   };
 
   return (
-    <Card className="group hover:shadow-[var(--shadow-property-hover)] transition-all duration-300 bg-property-card hover:bg-property-card-hover border-border">
+    <Card
+      ref={cardRef}
+      className={`group hover:shadow-[var(--shadow-property-hover)] transition-all duration-300 bg-property-card hover:bg-property-card-hover border-border ${
+        selected || highlighted ? 'ring-2 ring-primary' : ''
+      } ${highlighted ? 'animate-pulse' : ''}`}
+    >
       <div className="relative">
         {/* Image Loading State */}
         {imageLoading && (
           <div className="w-full h-48 bg-muted rounded-t-lg flex items-center justify-center">
             <div className="flex flex-col items-center gap-2 text-muted-foreground">
               <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary border-t-transparent"></div>
-              <span className="text-xs">Loading image...</span>
+              <span className="text-xs">{t("property.imageLoading")}</span>
             </div>
           </div>
         )}
@@ -74,7 +99,7 @@ export function PropertyCard({ property, aiAnalysis }: PropertyCardProps) {
           <div className="w-full h-48 bg-muted rounded-t-lg flex items-center justify-center">
             <div className="flex flex-col items-center gap-2 text-muted-foreground">
               <ImageIcon className="w-8 h-8" />
-              <span className="text-xs">Image unavailable</span>
+              <span className="text-xs">{t("property.imageUnavailable")}</span>
             </div>
           </div>
         )}
@@ -99,15 +124,27 @@ export function PropertyCard({ property, aiAnalysis }: PropertyCardProps) {
           </Badge>
           {metadata.mls_genuine && (
             <Badge variant="outline" className="bg-background/90">
-              MLS Verified
+              {t("property.mlsVerified")}
             </Badge>
           )}
         </div>
         <div className="absolute top-3 right-3">
           <Badge variant="secondary" className="bg-background/90">
-            Score: {Math.round(metadata.search_score * 100)}%
+            {t("property.score", { score: formatPercent(metadata.search_score) })}
           </Badge>
         </div>
+        <div className="absolute bottom-3 right-3">
+          <Button
+            variant="secondary"
+            size="sm"
+            className="h-8 w-8 p-0 rounded-full bg-background/90 hover:bg-background"
+            onClick={() => toggleFavorite(property, searchQuery)}
+            aria-pressed={favorited}
+            aria-label={favorited ? t("property.removeFromShortlist") : t("property.addToShortlist")}
+          >
+            <Heart className={`w-4 h-4 ${favorited ? 'fill-red-500 text-red-500' : ''}`} />
+          </Button>
+        </div>
       </div>
       
       <CardContent className="p-4">
@@ -129,22 +166,34 @@ export function PropertyCard({ property, aiAnalysis }: PropertyCardProps) {
         
         <div className="flex items-center text-muted-foreground mb-2">
           <MapPin className="w-4 h-4 mr-1" />
-          <span className="text-sm">{details.address}</span>
+          <Link
+            to={`/property/${encodeURIComponent(property.id)}`}
+            state={{ from: `${location.pathname}${location.search}` }}
+            className="text-sm hover:underline hover:text-primary">
+            {details.address}
+          </Link>
         </div>
         
         <div className="flex items-center gap-4 mb-3">
           <div className="flex items-center">
             <Bed className="w-4 h-4 mr-1 text-muted-foreground" />
-            <span className="text-sm">{details.bedrooms} bed</span>
+            <span className="text-sm">{t("property.beds", { count: details.bedrooms })}</span>
           </div>
           <div className="flex items-center">
             <Bath className="w-4 h-4 mr-1 text-muted-foreground" />
-            <span className="text-sm">{details.bathrooms} bath</span>
+            <span className="text-sm">{t("property.baths", { count: details.bathrooms })}</span>
           </div>
           <Badge variant="outline" className="text-xs">
             {details.type}
           </Badge>
         </div>
+
+        {affordability && (
+          <Badge variant="outline" className={`mb-3 text-xs ${AFFORDABILITY_STYLES[affordability.level]}`}>
+            {t(`affordability.${affordability.level}`)} ·{" "}
+            {t("affordability.perMonth", { amount: formatMoney(affordability.monthly_total, profileScale.currency) })}
+          </Badge>
+        )}
         
         <div className="mb-3">
           <p className={`text-sm text-muted-foreground ${
@@ -157,13 +206,33 @@ export function PropertyCard({ property, aiAnalysis }: PropertyCardProps) {
               onClick={() => setIsDescriptionExpanded(!isDescriptionExpanded)}
               className="text-xs text-primary hover:underline mt-1"
             >
-              {isDescriptionExpanded ? 'Read less' : 'Read more'}
+              {isDescriptionExpanded ? t("property.readLess") : t("property.readMore")}
             </button>
           )}
         </div>
         
-        <div className="flex justify-end mt-3">
-          <Dialog>
+        <div className="flex justify-end gap-2 mt-3">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => setIsCalculatorOpen(true)}
+            aria-label={t("mortgage.title")}
+          >
+            <Calculator className="w-4 h-4" />
+          </Button>
+          <Button
+            variant={comparing ? "default" : "outline"}
+            size="sm"
+            className="h-8"
+            onClick={() => toggleCompare(property)}
+            disabled={!comparing && isFull}
+            aria-pressed={comparing}
+          >
+            <GitCompare className="w-4 h-4 mr-1" />
+            {comparing ? t("property.comparing") : t("property.compare")}
+          </Button>
+          <Dialog open={onSelectedChange ? selected : undefined} onOpenChange={onSelectedChange}>
             <DialogTrigger asChild>
               <Button variant="outline" size="sm" className="h-8 w-8 p-0">
                 <Key className="w-4 h-4" />
@@ -171,17 +240,21 @@ export function PropertyCard({ property, aiAnalysis }: PropertyCardProps) {
             </DialogTrigger>
             <DialogContent className="max-w-2xl">
               <DialogHeader>
-                <DialogTitle>AI Property Analysis</DialogTitle>
+                <DialogTitle>{t("property.analysis")}</DialogTitle>
               </DialogHeader>
               <div className="max-h-96 overflow-y-auto">
-                <p className="text-sm whitespace-pre-wrap">
-                  {aiAnalysis || "No AI analysis available for this property."}
-                </p>
+                <AiAnalysis analysis={aiAnalysis} />
               </div>
             </DialogContent>
           </Dialog>
         </div>
       </CardContent>
+
+      <MortgageCalculatorDialog
+        open={isCalculatorOpen}
+        onOpenChange={setIsCalculatorOpen}
+        property={property}
+      />
     </Card>
   );
 }
\ No newline at end of file
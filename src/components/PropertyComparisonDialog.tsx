@@ -0,0 +1,122 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Check, Trophy, X } from "lucide-react";
+import type { Property } from "@/lib/server-messages";
+import type { Formatters } from "@/lib/formatting";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useTranslation } from "@/hooks/use-translation";
+import { bestPropertyIds, COMPARISON_ROWS, MIN_COMPARE, type ComparisonRowKey } from "@/lib/property-comparison";
+
+interface PropertyComparisonDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  properties: Property[];
+  onRemove: (id: string) => void;
+}
+
+function renderCell(
+  key: ComparisonRowKey,
+  property: Property,
+  { formatPrice, formatPercent }: Formatters,
+  t: ReturnType<typeof useTranslation>["t"]
+) {
+  const { details, metadata } = property;
+  switch (key) {
+    case "price":
+      return formatPrice(details.price, details.currency);
+    case "bedrooms":
+      return details.bedrooms;
+    case "bathrooms":
+      return details.bathrooms;
+    case "type":
+      return details.type;
+    case "status":
+      return metadata.status.charAt(0).toUpperCase() + metadata.status.slice(1);
+    case "mls_genuine":
+      return metadata.mls_genuine ? <Check className="w-4 h-4" /> : <span className="text-muted-foreground">—</span>;
+    case "search_score":
+      return formatPercent(metadata.search_score);
+    case "ai_analysis":
+      return details.ai_analysis_raw ? (
+        <p className="text-xs whitespace-pre-wrap max-h-40 overflow-y-auto">{details.ai_analysis_raw}</p>
+      ) : (
+        <span className="text-muted-foreground">{t("compare.noAnalysis")}</span>
+      );
+  }
+}
+
+export function PropertyComparisonDialog({ open, onOpenChange, properties, onRemove }: PropertyComparisonDialogProps) {
+  const formatters = useFormatting();
+  const { t } = useTranslation();
+  const scale = formatters.priceScale(properties.map((property) => property.details.currency));
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("compare.title")}</DialogTitle>
+          <DialogDescription>
+            {t("compare.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-32" />
+              {properties.map((property) => (
+                <TableHead key={property.id} className="align-top py-2">
+                  <div className="space-y-2">
+                    <img
+                      src={property.images.primary}
+                      alt={property.details.address}
+                      className="w-full h-20 object-cover rounded-md bg-muted"
+                    />
+                    <div className="flex items-start justify-between gap-1">
+                      <span className="text-foreground font-medium line-clamp-2">{property.details.address}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 shrink-0"
+                        onClick={() => onRemove(property.id)}
+                      >
+                        <X className="w-4 h-4" />
+                        <span className="sr-only">{t("compare.remove")}</span>
+                      </Button>
+                    </div>
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {COMPARISON_ROWS.map((row) => {
+              const best = bestPropertyIds(row, properties, scale);
+              return (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium text-muted-foreground align-top">{t(`compare.row.${row.key}`)}</TableCell>
+                  {properties.map((property) => (
+                    <TableCell
+                      key={property.id}
+                      className={`align-top ${best.has(property.id) ? 'bg-primary/10 font-semibold' : ''}`}
+                    >
+                      <div className="flex items-center gap-1">
+                        {renderCell(row.key, property, formatters, t)}
+                        {best.has(property.id) && <Trophy className="w-3 h-3 text-primary" />}
+                      </div>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {properties.length < MIN_COMPARE && (
+          <Badge variant="secondary" className="w-fit">{t("compare.addAnother")}</Badge>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
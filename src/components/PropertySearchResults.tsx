@@ -1,73 +1,241 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { PropertyCard } from "./PropertyCard";
-import { Search, Filter, Clock, CheckCircle, AlertCircle, Heart } from "lucide-react";
-
-interface SearchResultData {
-  type: string;
-  timestamp: number;
-  search_id: string;
-  query: string;
-  summary: {
-    total_found: number;
-    showing: number;
-    execution_time: number;
-    search_type: string;
-  };
-  filters_applied: {
-    min_price: number | null;
-    max_price: number | null;
-    bedrooms: number | null;
-    bathrooms: number | null;
-    property_type: string | null;
-    location_keywords: string | null;
-    mls_genuine: boolean | null;
-    ai_analysis_raw: string | null;
-  };
-  properties: Array<{
-    id: string;
-    url: string;
-    images: {
-      primary: string;
-      all: string[];
-    };
-    details: {
-      address: string;
-      price: number;
-      currency: string;
-      bedrooms: string;
-      bathrooms: string;
-      type: string;
-      description: string;
-      ai_analysis_raw?: string;
-    };
-    metadata: {
-      search_score: number;
-      mls_genuine: boolean;
-      status: string;
-    };
-  }>;
+import { RefineSearchPanel } from "./RefineSearchPanel";
+import { SaveSearchDialog } from "./SaveSearchDialog";
+import { ResultsAnalytics } from "./ResultsAnalytics";
+import { BuyerProfileDialog } from "./BuyerProfileDialog";
+import { ExportResultsMenu } from "./ExportResultsMenu";
+import { useSavedSearches } from "@/hooks/use-saved-searches";
+import { useToast } from "@/hooks/use-toast";
+import { useRefineSearchSync } from "@/hooks/use-refine-search-sync";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useSearchUrlState } from "@/hooks/use-search-url-state";
+import { useUiActions } from "@/hooks/use-ui-actions";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useComparison } from "@/hooks/use-comparison";
+import { usePropertyFocus } from "@/hooks/use-property-focus";
+import { useTranslation } from "@/hooks/use-translation";
+import { Search, Filter, Clock, CheckCircle, AlertCircle, Heart, Bookmark, X } from "lucide-react";
+import type { Property, SearchResultData } from "@/lib/server-messages";
+import {
+  countActiveFilters,
+  distinctValues,
+  filtersFromApplied,
+  refineProperties,
+  toFiltersApplied,
+  type PropertyFilters,
+  type PropertySort,
+} from "@/lib/property-filters";
+import { matchesBucket, type AnalyticsBucket } from "@/lib/property-analytics";
+import type { PriceScale } from "@/lib/formatting";
+import { filteredSearchResults } from "@/lib/results-export";
+import { MAX_COMPARE, MIN_COMPARE } from "@/lib/property-comparison";
+import { resolveActionTarget, UiActionError } from "@/lib/ui-actions";
+
+const PAGE_SIZE = 6;
+// How long a card stays highlighted after the bot points at it
+const HIGHLIGHT_MS = 4000;
+
+// The chart's selected bucket narrows the refined list further
+function visibleProperties(
+  properties: Property[],
+  filters: PropertyFilters,
+  sort: PropertySort,
+  chartBucket: AnalyticsBucket | null,
+  scale: PriceScale
+) {
+  const refined = refineProperties(properties, filters, sort);
+  return chartBucket ? refined.filter((property) => matchesBucket(property, chartBucket, scale)) : refined;
 }
 
 interface PropertySearchResultsProps {
   searchResults: SearchResultData | null;
   hasError: boolean;
+  errorMessage?: string | null;
 }
 
-export function PropertySearchResults({ searchResults, hasError }: PropertySearchResultsProps) {
-  const [displayCount, setDisplayCount] = useState(6); // Show 6 properties initially
-  
+export function PropertySearchResults({ searchResults, hasError, errorMessage }: PropertySearchResultsProps) {
+  const [displayCount, setDisplayCount] = useState(PAGE_SIZE); // Show 6 properties initially
+  const [isRefineOpen, setIsRefineOpen] = useState(false);
+  const {
+    filterOverrides,
+    sort,
+    propertyId: selectedPropertyId,
+    setFilters,
+    setSort,
+    setSelectedProperty,
+    openPropertyPage,
+  } = useSearchUrlState();
+  // Filters and sort live in the URL so a refresh or shared link restores the view
+  const serverFilters = useMemo(() => filtersFromApplied(searchResults?.filters_applied), [searchResults]);
+  const filters = useMemo<PropertyFilters>(() => ({ ...serverFilters, ...filterOverrides }), [serverFilters, filterOverrides]);
+  const [chartBucket, setChartBucket] = useState<AnalyticsBucket | null>(null);
+  const { canSync, syncFilters, runSearch } = useRefineSearchSync(searchResults);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const { saveSearch } = useSavedSearches();
+  const { toast } = useToast();
+  const { formatNumber, priceScale } = useFormatting();
+  const { t } = useTranslation();
+  const { addFavorite } = useFavorites();
+  const { selected: compared, addToCompare, setComparisonOpen } = useComparison();
+  const { focus, focusProperty, clearFocus } = usePropertyFocus();
+
+  // A new search starts again from the server's filters; the URL drops its refinements
+  const searchId = searchResults?.search_id;
+  useEffect(() => {
+    setChartBucket(null);
+    setDisplayCount(PAGE_SIZE);
+  }, [searchId]);
+
+  // The same scale the analytics charts bucket prices in
+  const scale = useMemo(
+    () => priceScale((searchResults?.properties ?? []).map((property) => property.details.currency)),
+    [searchResults, priceScale]
+  );
+  const refinedProperties = useMemo(
+    () => visibleProperties(searchResults?.properties ?? [], filters, sort, chartBucket, scale),
+    [searchResults, filters, sort, chartBucket, scale]
+  );
+  const propertyTypes = useMemo(
+    () => distinctValues(searchResults?.properties ?? [], (property) => property.details.type),
+    [searchResults]
+  );
+  const statuses = useMemo(
+    () => distinctValues(searchResults?.properties ?? [], (property) => property.metadata.status),
+    [searchResults]
+  );
+
+  // A linked property must be on the visible page for its card to open
+  const selectedIndex = selectedPropertyId
+    ? refinedProperties.findIndex((property) => property.id === selectedPropertyId)
+    : -1;
+  useEffect(() => {
+    if (selectedIndex >= 0) setDisplayCount((count) => Math.max(count, selectedIndex + 1));
+  }, [selectedIndex]);
+
+  // The bot or a chat link pointed at a property: bring it onto the page and pulse it for a moment
+  const focusedIndex = focus ? refinedProperties.findIndex((property) => property.id === focus.propertyId) : -1;
+  useEffect(() => {
+    if (!focus) return;
+    if (focusedIndex >= 0) {
+      setDisplayCount((count) => Math.max(count, focusedIndex + 1));
+    } else {
+      console.warn(`⚠️ Focused property ${focus.propertyId} is not in the visible results`);
+    }
+  }, [focus, focusedIndex]);
+  useEffect(() => {
+    if (!focus) return;
+    const timeout = setTimeout(clearFocus, HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [focus, clearFocus]);
+
+  const handleSaveSearch = (name: string) => {
+    if (!searchResults) return null;
+    try {
+      const saved = saveSearch(name, searchResults, toFiltersApplied(filters, searchResults.filters_applied));
+      toast({
+        title: t("toast.searchSaved.title"),
+        description: t("toast.searchSaved.description", { name: saved.name }),
+      });
+      return saved;
+    } catch {
+      toast({
+        title: t("toast.searchSaveFailed.title"),
+        description: t("toast.storageUnavailable"),
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  // Voice commands relayed by the bot ("sort by price", "show me the second one")
+  useUiActions((action) => {
+    if (!searchResults) throw new UiActionError("no_results", "No search results are loaded");
+    const all = searchResults.properties;
+
+    // Brings a property onto the visible page, or explains why it can't be shown
+    const reveal = (target: { property_id?: string; index?: number }) => {
+      const property = resolveActionTarget(target, refinedProperties, all);
+      const index = refinedProperties.indexOf(property);
+      if (index < 0) {
+        throw new UiActionError("property_not_found", `"${property.details.address}" is hidden by the current filters`);
+      }
+      setDisplayCount((count) => Math.max(count, index + 1));
+      return property;
+    };
+
+    switch (action.action) {
+      case "highlight_property": {
+        const property = reveal(action);
+        focusProperty(property.id);
+        return { property_id: property.id, address: property.details.address };
+      }
+      case "open_details": {
+        const property = reveal(action);
+        openPropertyPage(property.id);
+        return { property_id: property.id, address: property.details.address };
+      }
+      case "apply_filters": {
+        const next = { ...(action.replace ? serverFilters : filters), ...action.filters };
+        setFilters(next, serverFilters);
+        syncFilters(next, sort);
+        setDisplayCount(PAGE_SIZE);
+        return { matching: visibleProperties(all, next, sort, chartBucket, scale).length };
+      }
+      case "set_sort": {
+        setSort(action.sort);
+        syncFilters(filters, action.sort);
+        return { sort: action.sort };
+      }
+      case "add_favorite": {
+        const property = resolveActionTarget(action, refinedProperties, all);
+        addFavorite(property, searchResults.query);
+        return { property_id: property.id, address: property.details.address };
+      }
+      case "open_comparison": {
+        // Check the whole request before touching the selection, so a failed one changes nothing
+        const targets = (action.targets ?? []).map((target) => resolveActionTarget(target, refinedProperties, all));
+        const ids = new Set([...compared, ...targets].map((property) => property.id));
+        if (ids.size < MIN_COMPARE) {
+          throw new UiActionError("not_enough_to_compare", `Pick at least ${MIN_COMPARE} properties to compare`);
+        }
+        if (ids.size > MAX_COMPARE) {
+          throw new UiActionError("failed", `Only ${MAX_COMPARE} properties can be compared at once`);
+        }
+        targets.forEach(addToCompare);
+        setComparisonOpen(true);
+        return { property_ids: Array.from(ids) };
+      }
+      case "load_more": {
+        const remaining = refinedProperties.length - displayCount;
+        if (remaining <= 0) throw new UiActionError("nothing_to_load", "All matching properties are already shown");
+        const showing = Math.min(displayCount + (action.count ?? PAGE_SIZE), refinedProperties.length);
+        setDisplayCount(showing);
+        return { showing, total: refinedProperties.length };
+      }
+      case "save_search": {
+        const saved = handleSaveSearch(action.name ?? searchResults.query);
+        if (!saved) throw new UiActionError("failed", "Browser storage is full or unavailable");
+        return { saved_search_id: saved.id, name: saved.name };
+      }
+    }
+  });
+
   // Show cute error message
   if (hasError) {
     return (
       <div className="flex flex-col items-center justify-center py-12 text-center">
         <AlertCircle className="w-16 h-16 text-muted-foreground mb-4" />
-        <h3 className="text-lg font-medium mb-2">Oops! Something went wrong</h3>
+        <h3 className="text-lg font-medium mb-2">{t("results.error.title")}</h3>
         <p className="text-muted-foreground mb-4">
-          Our property search got a little lost. Maybe try asking again? 🏠✨
+          {t("results.error.description")}
         </p>
+        {errorMessage && (
+          <p className="text-xs text-muted-foreground max-w-md break-words">{errorMessage}</p>
+        )}
       </div>
     );
   }
@@ -77,20 +245,38 @@ export function PropertySearchResults({ searchResults, hasError }: PropertySearc
     return (
       <div className="flex flex-col items-center justify-center py-12 text-center">
         <Heart className="w-16 h-16 text-muted-foreground mb-4" />
-        <h3 className="text-lg font-medium mb-2">Ready to find your dream home?</h3>
+        <h3 className="text-lg font-medium mb-2">{t("results.empty.title")}</h3>
         <p className="text-muted-foreground">
-          Just ask me to search for properties and I'll find the perfect matches! 🏡
+          {t("results.empty.description")}
         </p>
       </div>
     );
   }
 
   const { data } = { data: searchResults };
-  const propertiesShown = data.properties.slice(0, displayCount);
-  const hasMoreProperties = data.properties.length > displayCount;
+  const propertiesShown = refinedProperties.slice(0, displayCount);
+  const hasMoreProperties = refinedProperties.length > displayCount;
+  const activeFilterCount = countActiveFilters(filters);
 
   const handleLoadMore = () => {
-    setDisplayCount(prev => Math.min(prev + 6, data.properties.length));
+    setDisplayCount(prev => Math.min(prev + PAGE_SIZE, refinedProperties.length));
+  };
+
+  const handleFiltersChange = (next: PropertyFilters) => {
+    setFilters(next, serverFilters);
+    syncFilters(next, sort);
+  };
+
+  const handleSortChange = (next: PropertySort) => {
+    setSort(next);
+    syncFilters(filters, next);
+  };
+
+  const handleResetFilters = () => {
+    setFilters(serverFilters, serverFilters);
+    setChartBucket(null);
+    setSort("relevance");
+    syncFilters(serverFilters, "relevance");
   };
 
   return (
@@ -101,7 +287,7 @@ export function PropertySearchResults({ searchResults, hasError }: PropertySearc
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <Search className="w-5 h-5 text-primary" />
-              <CardTitle>Search Results</CardTitle>
+              <CardTitle>{t("results.title")}</CardTitle>
             </div>
             <Badge variant="outline" className="flex items-center gap-1">
               <CheckCircle className="w-3 h-3" />
@@ -112,37 +298,107 @@ export function PropertySearchResults({ searchResults, hasError }: PropertySearc
         <CardContent>
           <div className="space-y-3">
             <p className="text-sm text-muted-foreground">
-              <span className="font-medium">Query:</span> "{data.query}"
+              <span className="font-medium">{t("results.query")}</span> "{data.query}"
             </p>
             
             <div className="flex flex-wrap gap-4 text-sm">
               <div className="flex items-center gap-1">
-                <span className="text-muted-foreground">Total found:</span>
-                <Badge variant="secondary">{data.summary.total_found}</Badge>
+                <span className="text-muted-foreground">{t("results.totalFound")}</span>
+                <Badge variant="secondary">{formatNumber(data.summary.total_found)}</Badge>
               </div>
               <div className="flex items-center gap-1">
-                <span className="text-muted-foreground">Showing:</span>
-                <Badge variant="secondary">{displayCount}</Badge>
+                <span className="text-muted-foreground">{t("results.showing")}</span>
+                <Badge variant="secondary">
+                  {formatNumber(propertiesShown.length)}
+                  {refinedProperties.length !== data.properties.length &&
+                    ` ${t("results.ofMatching", { count: formatNumber(refinedProperties.length) })}`}
+                </Badge>
               </div>
               <div className="flex items-center gap-1">
                 <Clock className="w-3 h-3 text-muted-foreground" />
-                <span className="text-muted-foreground">{data.summary.execution_time}s</span>
+                <span className="text-muted-foreground">{formatNumber(data.summary.execution_time, { maximumFractionDigits: 2 })}s</span>
               </div>
             </div>
 
             <div className="flex items-center gap-2">
-              <Button variant="outline" size="sm">
+              <Button
+                variant={isRefineOpen ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setIsRefineOpen(open => !open)}
+              >
                 <Filter className="w-4 h-4 mr-1" />
-                Refine Search
+                {t("results.refine")}
+                {activeFilterCount > 0 && (
+                  <Badge variant="default" className="ml-2 h-5 px-1.5">{activeFilterCount}</Badge>
+                )}
               </Button>
-              <Button variant="outline" size="sm">
-                Save Search
+              <Button variant="outline" size="sm" onClick={() => setIsSaveDialogOpen(true)}>
+                <Bookmark className="w-4 h-4 mr-1" />
+                {t("results.save")}
               </Button>
+              <ExportResultsMenu
+                results={filteredSearchResults(data, refinedProperties, toFiltersApplied(filters, data.filters_applied))}
+              />
+              <BuyerProfileDialog />
             </div>
           </div>
         </CardContent>
       </Card>
 
+      <SaveSearchDialog
+        open={isSaveDialogOpen}
+        onOpenChange={setIsSaveDialogOpen}
+        defaultName={data.query}
+        onSave={handleSaveSearch}
+      />
+
+      {isRefineOpen && (
+        <RefineSearchPanel
+          filters={filters}
+          sort={sort}
+          propertyTypes={propertyTypes}
+          statuses={statuses}
+          canRunSearch={canSync}
+          onFiltersChange={handleFiltersChange}
+          onSortChange={handleSortChange}
+          onReset={handleResetFilters}
+          onRunSearch={() => runSearch(filters, sort)}
+        />
+      )}
+
+      <ResultsAnalytics
+        properties={data.properties}
+        activeBucket={chartBucket}
+        onBucketSelect={(bucket) => {
+          setChartBucket(bucket);
+          setDisplayCount(PAGE_SIZE);
+        }}
+      />
+
+      {chartBucket && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">{t("results.chartFilter")}</span>
+          <Badge variant="secondary" className="gap-1">
+            {chartBucket.label}
+            <button onClick={() => setChartBucket(null)} className="hover:text-destructive">
+              <X className="w-3 h-3" />
+              <span className="sr-only">{t("results.clearChartFilter")}</span>
+            </button>
+          </Badge>
+        </div>
+      )}
+
+      {/* No matches for the refined filters */}
+      {refinedProperties.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-8 text-center">
+          <Filter className="w-10 h-10 text-muted-foreground mb-3" />
+          <p className="text-muted-foreground mb-3">{t("results.noMatches")}</p>
+          <Button variant="outline" size="sm" onClick={handleResetFilters}>
+            {t("results.resetFilters")}
+          </Button>
+        </div>
+      )}
+
       {/* Properties Grid */}
       <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
         {propertiesShown.map((property) => (
@@ -150,6 +406,11 @@ export function PropertySearchResults({ searchResults, hasError }: PropertySearc
             key={property.id} 
             property={property} 
             aiAnalysis={property.details.ai_analysis_raw}
+            searchQuery={data.query}
+            showAffordability
+            selected={property.id === selectedPropertyId}
+            highlighted={property.id === focus?.propertyId}
+            onSelectedChange={(selected) => setSelectedProperty(selected ? property.id : null)}
           />
         ))}
       </div>
@@ -158,7 +419,10 @@ export function PropertySearchResults({ searchResults, hasError }: PropertySearc
       {hasMoreProperties && (
         <div className="flex justify-center">
           <Button variant="outline" onClick={handleLoadMore}>
-            Load More Properties ({data.properties.length - displayCount} remaining)
+            {t("results.loadMore", {
+              count: refinedProperties.length - displayCount,
+              formatted: formatNumber(refinedProperties.length - displayCount),
+            })}
           </Button>
         </div>
       )}
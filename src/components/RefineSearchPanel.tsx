@@ -0,0 +1,178 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw, Send } from "lucide-react";
+import {
+  PROPERTY_SORTS,
+  type PropertyFilters,
+  type PropertySort,
+} from "@/lib/property-filters";
+import { useTranslation } from "@/hooks/use-translation";
+
+const ANY = "any";
+const BEDROOM_OPTIONS = [1, 2, 3, 4, 5];
+const BATHROOM_OPTIONS = [1, 1.5, 2, 3];
+
+interface RefineSearchPanelProps {
+  filters: PropertyFilters;
+  sort: PropertySort;
+  propertyTypes: string[];
+  statuses: string[];
+  /** Whether the bot is connected and can re-run the search */
+  canRunSearch: boolean;
+  onFiltersChange: (filters: PropertyFilters) => void;
+  onSortChange: (sort: PropertySort) => void;
+  onReset: () => void;
+  onRunSearch: () => void;
+}
+
+export function RefineSearchPanel({
+  filters,
+  sort,
+  propertyTypes,
+  statuses,
+  canRunSearch,
+  onFiltersChange,
+  onSortChange,
+  onReset,
+  onRunSearch,
+}: RefineSearchPanelProps) {
+  const { t } = useTranslation();
+  const update = <K extends keyof PropertyFilters>(key: K, value: PropertyFilters[K]) => {
+    onFiltersChange({ ...filters, [key]: value });
+  };
+
+  const parsePrice = (value: string) => (value === "" ? null : Math.max(0, Number(value)));
+  const parseOption = (value: string) => (value === ANY ? null : Number(value));
+
+  return (
+    <Card className="bg-muted/30">
+      <CardContent className="p-4 space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="refine-min-price">{t("refine.minPrice")}</Label>
+            <Input
+              id="refine-min-price"
+              type="number"
+              min={0}
+              step={10000}
+              placeholder={t("refine.noMin")}
+              value={filters.min_price ?? ""}
+              onChange={(e) => update("min_price", parsePrice(e.target.value))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="refine-max-price">{t("refine.maxPrice")}</Label>
+            <Input
+              id="refine-max-price"
+              type="number"
+              min={0}
+              step={10000}
+              placeholder={t("refine.noMax")}
+              value={filters.max_price ?? ""}
+              onChange={(e) => update("max_price", parsePrice(e.target.value))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>{t("refine.bedrooms")}</Label>
+            <Select
+              value={filters.bedrooms === null ? ANY : String(filters.bedrooms)}
+              onValueChange={(value) => update("bedrooms", parseOption(value))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t("refine.any")}</SelectItem>
+                {BEDROOM_OPTIONS.map((count) => (
+                  <SelectItem key={count} value={String(count)}>{count}+</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>{t("refine.bathrooms")}</Label>
+            <Select
+              value={filters.bathrooms === null ? ANY : String(filters.bathrooms)}
+              onValueChange={(value) => update("bathrooms", parseOption(value))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t("refine.any")}</SelectItem>
+                {BATHROOM_OPTIONS.map((count) => (
+                  <SelectItem key={count} value={String(count)}>{count}+</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>{t("refine.propertyType")}</Label>
+            <Select
+              value={filters.property_type ?? ANY}
+              onValueChange={(value) => update("property_type", value === ANY ? null : value)}
+            >
+              <SelectTrigger className="capitalize"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t("refine.any")}</SelectItem>
+                {propertyTypes.map((type) => (
+                  <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>{t("refine.status")}</Label>
+            <Select
+              value={filters.status ?? ANY}
+              onValueChange={(value) => update("status", value === ANY ? null : value)}
+            >
+              <SelectTrigger className="capitalize"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t("refine.any")}</SelectItem>
+                {statuses.map((status) => (
+                  <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>{t("refine.sortBy")}</Label>
+            <Select value={sort} onValueChange={(value) => onSortChange(value as PropertySort)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PROPERTY_SORTS.map((key) => (
+                  <SelectItem key={key} value={key}>{t(`sort.${key}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end gap-2 pb-2">
+            <Switch
+              id="refine-mls-only"
+              checked={filters.mls_genuine === true}
+              onCheckedChange={(checked) => update("mls_genuine", checked ? true : null)}
+            />
+            <Label htmlFor="refine-mls-only">{t("refine.mlsOnly")}</Label>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            {canRunSearch ? t("refine.hint.connected") : t("refine.hint.disconnected")}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={onReset}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              {t("refine.reset")}
+            </Button>
+            <Button size="sm" onClick={onRunSearch} disabled={!canRunSearch}>
+              <Send className="w-4 h-4 mr-1" />
+              {t("refine.searchAgain")}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { BarChart3, ChevronDown } from "lucide-react";
+import type { Property } from "@/lib/server-messages";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useTranslation } from "@/hooks/use-translation";
+import {
+  bedroomsByMedianPrice,
+  countsByType,
+  priceHistogram,
+  scoreDistribution,
+  type AnalyticsBucket,
+} from "@/lib/property-analytics";
+
+interface ResultsAnalyticsProps {
+  properties: Property[];
+  activeBucket: AnalyticsBucket | null;
+  onBucketSelect: (bucket: AnalyticsBucket | null) => void;
+}
+
+const chartColors = {
+  count: "hsl(var(--primary))",
+  median_price: "hsl(var(--accent))",
+};
+
+interface BucketChartProps {
+  title: string;
+  data: AnalyticsBucket[];
+  dataKey: "count" | "median_price";
+  activeBucket: AnalyticsBucket | null;
+  onBucketClick: (bucket: AnalyticsBucket) => void;
+  formatValue?: (value: number) => string;
+}
+
+function BucketChart({ title, data, dataKey, activeBucket, onBucketClick, formatValue }: BucketChartProps) {
+  const { t } = useTranslation();
+  const chartConfig = {
+    count: { label: t("analytics.properties"), color: chartColors.count },
+    median_price: { label: t("stats.medianPrice"), color: chartColors.median_price },
+  } satisfies ChartConfig;
+
+  return (
+    <div className="space-y-1">
+      <h4 className="text-sm font-medium">{title}</h4>
+      <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+        <BarChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} tick={{ fontSize: 10 }} />
+          <YAxis
+            width={formatValue ? 48 : 24}
+            tickLine={false}
+            axisLine={false}
+            allowDecimals={false}
+            tickFormatter={formatValue}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                formatter={(value) => (
+                  <span>
+                    {chartConfig[dataKey].label}:{" "}
+                    <span className="font-mono font-medium">
+                      {formatValue ? formatValue(Number(value)) : value}
+                    </span>
+                  </span>
+                )}
+              />
+            }
+          />
+          <Bar dataKey={dataKey} radius={4}>
+            {data.map((bucket) => (
+              <Cell
+                key={bucket.key}
+                className="cursor-pointer"
+                onClick={() => onBucketClick(bucket)}
+                fill={`var(--color-${dataKey})`}
+                fillOpacity={activeBucket && activeBucket.key !== bucket.key ? 0.35 : 1}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+export function ResultsAnalytics({ properties, activeBucket, onBucketSelect }: ResultsAnalyticsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { formatPrice: formatMoney, priceScale } = useFormatting();
+  const { t } = useTranslation();
+  const scale = useMemo(
+    () => priceScale(properties.map((property) => property.details.currency)),
+    [properties, priceScale]
+  );
+  const formatPrice = (price: number) => formatMoney(price, scale.currency, { compact: true });
+
+  const charts = useMemo(
+    () => ({
+      price: priceHistogram(properties, scale, (price) => formatMoney(price, scale.currency, { compact: true })),
+      bedrooms: bedroomsByMedianPrice(properties, scale).map((bucket) => ({
+        ...bucket,
+        label: t("property.beds", { count: bucket.value }),
+      })),
+      type: countsByType(properties),
+      score: scoreDistribution(properties),
+    }),
+    [properties, scale, formatMoney, t]
+  );
+
+  // Clicking the selected bar again clears the filter
+  const handleBucketClick = (bucket: AnalyticsBucket) => {
+    onBucketSelect(activeBucket?.key === bucket.key ? null : bucket);
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <Card>
+        <CardHeader className="py-3">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" className="w-full justify-between px-0 hover:bg-transparent">
+              <span className="flex items-center gap-2">
+                <BarChart3 className="w-5 h-5 text-primary" />
+                <CardTitle className="text-base">{t("analytics.title")}</CardTitle>
+              </span>
+              <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+            </Button>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="pt-0">
+            <p className="text-xs text-muted-foreground mb-3">{t("analytics.hint")}</p>
+            <div className="grid gap-6 md:grid-cols-2">
+              <BucketChart
+                title={t("analytics.price")}
+                data={charts.price}
+                dataKey="count"
+                activeBucket={activeBucket}
+                onBucketClick={handleBucketClick}
+              />
+              <BucketChart
+                title={t("analytics.bedrooms")}
+                data={charts.bedrooms}
+                dataKey="median_price"
+                activeBucket={activeBucket}
+                onBucketClick={handleBucketClick}
+                formatValue={formatPrice}
+              />
+              <BucketChart
+                title={t("analytics.type")}
+                data={charts.type}
+                dataKey="count"
+                activeBucket={activeBucket}
+                onBucketClick={handleBucketClick}
+              />
+              <BucketChart
+                title={t("analytics.score")}
+                data={charts.score}
+                dataKey="count"
+                activeBucket={activeBucket}
+                onBucketClick={handleBucketClick}
+              />
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
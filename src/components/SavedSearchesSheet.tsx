@@ -0,0 +1,107 @@
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Bookmark, FolderOpen, RefreshCw, Trash2 } from "lucide-react";
+import { useSavedSearches } from "@/hooks/use-saved-searches";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/use-translation";
+import type { SavedSearch } from "@/lib/saved-searches";
+
+interface SavedSearchesSheetProps {
+  canRerun: boolean;
+  onOpenSearch: (search: SavedSearch) => void;
+  onRerunSearch: (search: SavedSearch) => void;
+}
+
+export function SavedSearchesSheet({ canRerun, onOpenSearch, onRerunSearch }: SavedSearchesSheetProps) {
+  const { savedSearches, deleteSearch } = useSavedSearches();
+  const { t, dateLocale } = useTranslation();
+  const { toast } = useToast();
+
+  const handleDelete = (id: string) => {
+    try {
+      deleteSearch(id);
+    } catch {
+      toast({
+        title: t("toast.searchDeleteFailed.title"),
+        description: t("toast.storageUnavailable"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1">
+          <Bookmark className="w-4 h-4" />
+          {t("saved.button")}
+          {savedSearches.length > 0 && (
+            <Badge variant="secondary" className="ml-1 h-5 px-1.5">{savedSearches.length}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{t("saved.title")}</SheetTitle>
+          <SheetDescription>
+            {t("saved.description")}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2 px-2 mt-4">
+          {savedSearches.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+              <Bookmark className="w-10 h-10 mb-3" />
+              <p>{t("saved.empty.title")}</p>
+              <p className="text-sm">{t("saved.empty.description")}</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {savedSearches.map((search) => (
+                <div key={search.id} className="rounded-lg border p-3 space-y-2">
+                  <div>
+                    <p className="font-medium">{search.name}</p>
+                    <p className="text-sm text-muted-foreground line-clamp-1">"{search.query}"</p>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Badge variant="outline">{t("saved.propertyCount", { count: search.results.properties.length })}</Badge>
+                    <span>{t("saved.savedWhen", { when: formatDistanceToNow(search.saved_at, { addSuffix: true, locale: dateLocale }) })}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => onOpenSearch(search)}>
+                      <FolderOpen className="w-4 h-4 mr-1" />
+                      {t("saved.open")}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => onRerunSearch(search)} disabled={!canRerun}>
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      {t("saved.rerun")}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="ml-auto text-muted-foreground hover:text-destructive"
+                      onClick={() => handleDelete(search.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span className="sr-only">{t("common.delete")}</span>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
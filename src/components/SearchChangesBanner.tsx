@@ -0,0 +1,85 @@
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { History, X } from "lucide-react";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useTranslation } from "@/hooks/use-translation";
+import { isEmptyDiff, type SavedSearch, type SearchResultsDiff } from "@/lib/saved-searches";
+
+interface SearchChangesBannerProps {
+  search: SavedSearch;
+  diff: SearchResultsDiff;
+  onUpdateSnapshot: () => void;
+  onDismiss: () => void;
+}
+
+export function SearchChangesBanner({ search, diff, onUpdateSnapshot, onDismiss }: SearchChangesBannerProps) {
+  const unchanged = isEmptyDiff(diff);
+  const { formatPrice } = useFormatting();
+  const { t, dateLocale } = useTranslation();
+
+  return (
+    <Card className="border-primary/40 bg-primary/5">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <History className="w-4 h-4 text-primary" />
+            <p className="text-sm">
+              <span className="font-medium">{t("changes.title", { name: search.name })}</span>{" "}
+              <span className="text-muted-foreground">
+                {t("changes.savedWhen", { when: formatDistanceToNow(search.saved_at, { addSuffix: true, locale: dateLocale }) })}
+              </span>
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onDismiss}>
+            <X className="w-4 h-4" />
+            <span className="sr-only">{t("common.dismiss")}</span>
+          </Button>
+        </div>
+
+        {unchanged ? (
+          <p className="text-sm text-muted-foreground">{t("changes.none")}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{t("changes.added", { count: diff.added.length })}</Badge>
+              <Badge variant="secondary">{t("changes.removed", { count: diff.removed.length })}</Badge>
+              <Badge variant="secondary">{t("changes.priceChanges", { count: diff.priceChanges.length })}</Badge>
+              <Badge variant="secondary">{t("changes.statusChanges", { count: diff.statusChanges.length })}</Badge>
+            </div>
+            <ul className="text-sm space-y-1 max-h-32 overflow-y-auto">
+              {diff.added.map((property) => (
+                <li key={`added-${property.id}`}>
+                  <span className="text-green-600 font-medium">{t("changes.newLabel")}</span> {property.details.address}
+                </li>
+              ))}
+              {diff.removed.map((property) => (
+                <li key={`removed-${property.id}`}>
+                  <span className="text-red-600 font-medium">{t("changes.goneLabel")}</span> {property.details.address}
+                </li>
+              ))}
+              {diff.priceChanges.map(({ property, from, to }) => (
+                <li key={`price-${property.id}`}>
+                  <span className="font-medium">{to < from ? t("changes.priceDrop") : t("changes.priceRise")}</span>{" "}
+                  {property.details.address} — {formatPrice(from, property.details.currency)} → {formatPrice(to, property.details.currency)}
+                </li>
+              ))}
+              {diff.statusChanges.map(({ property, from, to }) => (
+                <li key={`status-${property.id}`}>
+                  <span className="font-medium">{t("changes.statusLabel")}</span> {property.details.address} — {from} → {to}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={onUpdateSnapshot} disabled={unchanged}>
+            {t("changes.updateSnapshot")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,24 @@
+import * as React from "react";
+import { useRTVIClientEvent } from "@pipecat-ai/client-react";
+import { RTVIEvent } from "@pipecat-ai/client-js";
+import { ServerMessageRouterContext } from "@/hooks/use-server-messages";
+import { createServerMessageRouter } from "@/lib/server-message-router";
+
+/**
+ * Validates every RTVI server message once and routes it to the handlers
+ * registered for its `type`. Mount inside PipecatClientProvider.
+ */
+export function ServerMessageProvider({ children }: React.PropsWithChildren) {
+  const [router] = React.useState(createServerMessageRouter);
+
+  useRTVIClientEvent(
+    RTVIEvent.ServerMessage,
+    React.useCallback((raw: unknown) => router.dispatch(raw), [router])
+  );
+
+  return (
+    <ServerMessageRouterContext.Provider value={router}>
+      {children}
+    </ServerMessageRouterContext.Provider>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Circle, Square, Upload, Play, Bug } from "lucide-react";
+import { usePipecatClient } from "@pipecat-ai/client-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/use-translation";
+import {
+  SessionRecorder,
+  SessionReplayer,
+  downloadSessionRecording,
+  parseSessionRecording,
+  type SessionRecording,
+} from "@/lib/session-recording";
+
+const REPLAY_SPEEDS = ["1", "2", "4", "10"];
+
+// Developer tool: shown in dev builds or with ?devtools in the URL
+export function SessionRecorderPanel() {
+  const pipecatClient = usePipecatClient();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const replayerRef = useRef<SessionReplayer | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isRecording, setIsRecording] = useState(false);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [speed, setSpeed] = useState("1");
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.stop();
+      replayerRef.current?.stop();
+    };
+  }, []);
+
+  const handleToggleRecording = () => {
+    if (!pipecatClient) return;
+    if (isRecording) {
+      const result = recorderRef.current!.stop();
+      setIsRecording(false);
+      setRecording(result);
+      downloadSessionRecording(result);
+      toast({
+        title: t("recorder.saved.title"),
+        description: t("recorder.saved.description", {
+          count: result.events.length,
+          seconds: (result.duration_ms / 1000).toFixed(1),
+        }),
+      });
+    } else {
+      recorderRef.current = new SessionRecorder(pipecatClient);
+      recorderRef.current.start();
+      setIsRecording(true);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setRecording(parseSessionRecording(await file.text()));
+      setProgress(0);
+    } catch (error) {
+      console.error("🚨 Invalid session recording:", error);
+      toast({
+        title: t("recorder.invalid.title"),
+        description: t("recorder.invalid.description"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleReplay = () => {
+    if (!pipecatClient || !recording) return;
+    if (isReplaying) {
+      replayerRef.current?.stop();
+      setIsReplaying(false);
+      return;
+    }
+    replayerRef.current = new SessionReplayer(pipecatClient, recording);
+    replayerRef.current.play({
+      speed: Number(speed),
+      onProgress: (elapsed, duration) => setProgress(duration ? (elapsed / duration) * 100 : 100),
+      onFinish: () => {
+        setIsReplaying(false);
+        setProgress(100);
+      },
+    });
+    setIsReplaying(true);
+    setProgress(0);
+  };
+
+  return (
+    <Card className="border-dashed">
+      <CardContent className="p-3 flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className="flex items-center gap-1">
+          <Bug className="w-3 h-3" />
+          {t("recorder.title")}
+        </Badge>
+
+        <Button size="sm" variant={isRecording ? "destructive" : "outline"} onClick={handleToggleRecording}>
+          {isRecording ? <Square className="w-4 h-4 mr-1" /> : <Circle className="w-4 h-4 mr-1 text-red-500" />}
+          {isRecording ? t("recorder.stopAndSave") : t("recorder.record")}
+        </Button>
+
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isReplaying}>
+          <Upload className="w-4 h-4 mr-1" />
+          {t("recorder.load")}
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json" className="hidden" onChange={handleFileSelected} />
+
+        <Select value={speed} onValueChange={setSpeed} disabled={isReplaying}>
+          <SelectTrigger className="h-9 w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPLAY_SPEEDS.map((value) => (
+              <SelectItem key={value} value={value}>{value}×</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button size="sm" variant="outline" onClick={handleToggleReplay} disabled={!recording || isRecording}>
+          {isReplaying ? <Square className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+          {isReplaying ? t("recorder.stop") : t("recorder.replay")}
+        </Button>
+
+        {recording && (
+          <div className="flex items-center gap-2 flex-1 min-w-[160px]">
+            <Progress value={progress} className="h-2" />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {t("recorder.eventCount", { count: recording.events.length })}
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Heart, Trash2 } from "lucide-react";
+import { PropertyCard } from "./PropertyCard";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useTranslation } from "@/hooks/use-translation";
+
+export function ShortlistView() {
+  const { favorites, clearFavorites } = useFavorites();
+  const { t, dateLocale } = useTranslation();
+
+  if (favorites.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <Heart className="w-16 h-16 text-muted-foreground mb-4" />
+        <h3 className="text-lg font-medium mb-2">{t("shortlist.empty.title")}</h3>
+        <p className="text-muted-foreground">
+          {t("shortlist.empty.description")}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Heart className="w-5 h-5 text-red-500 fill-red-500" />
+              <CardTitle>{t("shortlist.title")}</CardTitle>
+              <Badge variant="secondary">{favorites.length}</Badge>
+            </div>
+            <Button variant="ghost" size="sm" onClick={clearFavorites}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              {t("shortlist.clearAll")}
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+        {favorites.map(({ property, saved_at, search_query }) => (
+          <div key={property.id} className="space-y-1">
+            <PropertyCard
+              property={property}
+              aiAnalysis={property.details.ai_analysis_raw}
+              searchQuery={search_query}
+            />
+            <p className="text-xs text-muted-foreground px-1">
+              {search_query
+                ? t("shortlist.savedFrom", {
+                    when: formatDistanceToNow(saved_at, { addSuffix: true, locale: dateLocale }),
+                    query: search_query,
+                  })
+                : t("shortlist.saved", { when: formatDistanceToNow(saved_at, { addSuffix: true, locale: dateLocale }) })}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import * as React from "react";
+import { usePipecatClient, usePipecatClientTransportState, useRTVIClientEvent } from "@pipecat-ai/client-react";
+import { RTVIEvent, type APIRequest, type TransportState } from "@pipecat-ai/client-js";
+import { VoiceSessionContext, type VoiceSession } from "@/hooks/use-voice-session";
+import { startSession } from "@/lib/pipecat-transport";
+import { isReplayedEvent } from "@/lib/session-recording";
+import {
+  CONNECT_TIMEOUT_MS,
+  isConnectingTransportState,
+  MAX_RECONNECT_ATTEMPTS,
+  reconnectDelay,
+  toError,
+  withTimeout,
+  type VoiceSessionStatus,
+} from "@/lib/voice-session";
+
+function initialStatus(state: TransportState): VoiceSessionStatus {
+  if (state === "connected" || state === "ready") return state;
+  return isConnectingTransportState(state) ? "connecting" : "idle";
+}
+
+/**
+ * Owns the voice call lifecycle: connect, disconnect, and reconnecting with
+ * exponential backoff when a live call drops unexpectedly. A failed first
+ * connect is reported rather than retried. Mount inside PipecatClientProvider.
+ */
+export function VoiceSessionProvider({ children }: React.PropsWithChildren) {
+  const pipecatClient = usePipecatClient();
+  const transportState = usePipecatClientTransportState();
+  const [status, setStatus] = React.useState<VoiceSessionStatus>(() => initialStatus(transportState));
+  const [retryCount, setRetryCount] = React.useState(0);
+  const [retryDelayMs, setRetryDelayMs] = React.useState<number | null>(null);
+  const [lastError, setLastError] = React.useState<Error | null>(null);
+  const [isResumed, setIsResumed] = React.useState(false);
+
+  // Mutable lifecycle flags, read from transport events without re-subscribing
+  const lastRequestRef = React.useRef<APIRequest | null>(null);
+  const wasLiveRef = React.useRef(false);
+  const userDisconnectRef = React.useRef(false);
+  const attemptInFlightRef = React.useRef(false);
+  const retryCountRef = React.useRef(0);
+  const timerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const hasBeenReadyRef = React.useRef(false);
+
+  const clearTimer = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+  };
+
+  const giveUp = (error: Error) => {
+    console.error("🚨 Voice session lost:", error);
+    clearTimer();
+    wasLiveRef.current = false;
+    setRetryDelayMs(null);
+    setLastError(error);
+    setStatus("error");
+  };
+
+  /**
+   * One try at starting the bot and joining. Transport events during the try
+   * are left to the caller; a try that never reaches a ready bot is torn down
+   * after CONNECT_TIMEOUT_MS so it can't hold the session in "connecting".
+   */
+  const attemptConnect = React.useCallback(
+    async (request: APIRequest) => {
+      attemptInFlightRef.current = true;
+      try {
+        await withTimeout(
+          startSession(pipecatClient, request),
+          CONNECT_TIMEOUT_MS,
+          `The bot was not ready after ${CONNECT_TIMEOUT_MS / 1000}s`
+        );
+      } catch (error) {
+        // Drop the half-open call so a late "ready" can't revive an attempt we gave up on
+        await pipecatClient.disconnect().catch((disconnectError) => {
+          console.error("❌ Failed to abandon connect attempt:", disconnectError);
+        });
+        throw error;
+      } finally {
+        attemptInFlightRef.current = false;
+      }
+    },
+    [pipecatClient]
+  );
+
+  const scheduleReconnect = () => {
+    if (timerRef.current || attemptInFlightRef.current) return;
+    const attempt = retryCountRef.current + 1;
+    if (attempt > MAX_RECONNECT_ATTEMPTS || !lastRequestRef.current) {
+      giveUp(new Error(`Could not reconnect after ${MAX_RECONNECT_ATTEMPTS} attempts`));
+      return;
+    }
+
+    const delay = reconnectDelay(attempt);
+    console.warn(`⚠️ Voice session dropped, reconnecting in ${delay}ms (attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS})`);
+    retryCountRef.current = attempt;
+    setRetryCount(attempt);
+    setRetryDelayMs(delay);
+    setStatus("reconnecting");
+
+    timerRef.current = setTimeout(async () => {
+      timerRef.current = null;
+      if (!pipecatClient || userDisconnectRef.current) return;
+      try {
+        await attemptConnect(lastRequestRef.current!);
+      } catch (error) {
+        if (userDisconnectRef.current) return;
+        console.error("❌ Reconnect attempt failed:", error);
+        setLastError(toError(error));
+        scheduleReconnect();
+      }
+    }, delay);
+  };
+
+  // Latest closures for the stable event handler below
+  const scheduleReconnectRef = React.useRef(scheduleReconnect);
+  scheduleReconnectRef.current = scheduleReconnect;
+
+  useRTVIClientEvent(
+    RTVIEvent.TransportStateChanged,
+    React.useCallback((state: TransportState) => {
+      // A replayed recording only redraws the UI; it must never reconnect or resume the real call
+      if (isReplayedEvent()) return;
+      if (state === "connected") {
+        wasLiveRef.current = true;
+        setStatus("connected");
+      } else if (state === "ready") {
+        // Only a ready bot counts as recovered, so a call that keeps dropping still runs out of retries
+        wasLiveRef.current = true;
+        retryCountRef.current = 0;
+        setRetryCount(0);
+        setRetryDelayMs(null);
+        setLastError(null);
+        setIsResumed(hasBeenReadyRef.current);
+        hasBeenReadyRef.current = true;
+        setStatus("ready");
+      } else if (state === "disconnected" || state === "error") {
+        // A failing reconnect attempt is handled where it was started
+        if (attemptInFlightRef.current) return;
+        if (userDisconnectRef.current) {
+          setStatus("idle");
+        } else if (wasLiveRef.current) {
+          scheduleReconnectRef.current();
+        } else if (state === "error") {
+          setStatus("error");
+        } else {
+          setStatus((current) => (current === "error" ? current : "idle"));
+        }
+      }
+    }, [])
+  );
+
+  useRTVIClientEvent(
+    RTVIEvent.Error,
+    React.useCallback((message: { data?: { message?: string } }) => {
+      if (isReplayedEvent()) return;
+      setLastError(new Error(message?.data?.message ?? "Voice session error"));
+    }, [])
+  );
+
+  React.useEffect(() => clearTimer, []);
+
+  const connect = React.useCallback(
+    async (request: APIRequest) => {
+      if (!pipecatClient) throw new Error("Pipecat client is not available");
+      clearTimer();
+      lastRequestRef.current = request;
+      userDisconnectRef.current = false;
+      wasLiveRef.current = false;
+      retryCountRef.current = 0;
+      setRetryCount(0);
+      setRetryDelayMs(null);
+      setLastError(null);
+      setStatus("connecting");
+      try {
+        await attemptConnect(request);
+      } catch (error) {
+        // Cancelled with disconnect(); that's not a failure to report
+        if (userDisconnectRef.current) return;
+        setLastError(toError(error));
+        setStatus("error");
+        throw error;
+      }
+    },
+    [pipecatClient, attemptConnect]
+  );
+
+  const disconnect = React.useCallback(async () => {
+    userDisconnectRef.current = true;
+    wasLiveRef.current = false;
+    clearTimer();
+    retryCountRef.current = 0;
+    setRetryCount(0);
+    setRetryDelayMs(null);
+    setStatus("idle");
+    await pipecatClient?.disconnect();
+  }, [pipecatClient]);
+
+  const value = React.useMemo<VoiceSession>(
+    () => ({
+      status,
+      transportState,
+      isConnected: status === "connected" || status === "ready",
+      isConnecting: status === "connecting" || status === "reconnecting",
+      retryCount,
+      retryDelayMs,
+      lastError,
+      isResumed,
+      connect,
+      disconnect,
+    }),
+    [status, transportState, retryCount, retryDelayMs, lastError, isResumed, connect, disconnect]
+  );
+
+  return <VoiceSessionContext.Provider value={value}>{children}</VoiceSessionContext.Provider>;
+}
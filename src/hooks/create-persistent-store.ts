@@ -0,0 +1,116 @@
+import * as React from "react";
+import { z } from "zod";
+
+interface PersistentStoreOptions<T> {
+  /** localStorage key, e.g. "dwelling-scribe:favorites" */
+  key: string;
+  /** Validates what's stored; a value that doesn't fit it is replaced by `defaultState` */
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  /** The state when nothing valid is stored */
+  defaultState: T;
+  /** Runs whenever the state is loaded or changes, another tab's changes included */
+  onChange?: (state: T) => void;
+}
+
+/** A list schema that drops entries written by an older schema instead of failing the whole list. */
+export function lenientArray<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>) {
+  return z.array(z.unknown()).transform((entries) =>
+    entries.flatMap((entry) => {
+      const result = schema.safeParse(entry);
+      return result.success ? [result.data] : [];
+    })
+  );
+}
+
+function parseStored(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // Older versions stored some plain strings unquoted
+    return raw;
+  }
+}
+
+/**
+ * A module-level store backed by localStorage, shared by every component that
+ * uses it and kept in sync across tabs. Define one per key at module scope and
+ * call `useStore` from the hook that adds the store's actions.
+ *
+ * Reading never fails: unreadable or invalid data gives `defaultState`. A write
+ * that fails (storage full or blocked) throws and leaves the state as it was,
+ * so the UI never shows a change that wasn't saved. Setting `null` removes the key.
+ */
+export function createPersistentStore<T>({ key, schema, defaultState, onChange }: PersistentStoreOptions<T>) {
+  const listeners: Array<(state: T) => void> = [];
+
+  let loaded = false;
+  let memoryState: T;
+
+  function read(): T {
+    try {
+      const raw = localStorage.getItem(key);
+      if (raw === null) return defaultState;
+      const result = schema.safeParse(parseStored(raw));
+      return result.success ? result.data : defaultState;
+    } catch (error) {
+      console.error(`🚨 Failed to read ${key}:`, error);
+      return defaultState;
+    }
+  }
+
+  function write(state: T) {
+    try {
+      if (state === null) {
+        localStorage.removeItem(key);
+      } else {
+        localStorage.setItem(key, JSON.stringify(state));
+      }
+    } catch (error) {
+      console.error(`🚨 Failed to write ${key}:`, error);
+      throw error;
+    }
+  }
+
+  function emit(next: T) {
+    memoryState = next;
+    loaded = true;
+    onChange?.(next);
+    listeners.forEach((listener) => listener(memoryState));
+  }
+
+  function getState() {
+    if (!loaded) emit(read());
+    return memoryState;
+  }
+
+  function setState(next: T) {
+    write(next);
+    emit(next);
+  }
+
+  // Keep other tabs in sync
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", (event) => {
+      if (event.key !== key) return;
+      emit(read());
+    });
+  }
+
+  function useStore() {
+    const [state, setLocalState] = React.useState<T>(getState);
+
+    React.useEffect(() => {
+      listeners.push(setLocalState);
+      return () => {
+        const index = listeners.indexOf(setLocalState);
+        if (index > -1) {
+          listeners.splice(index, 1);
+        }
+      };
+    }, []);
+
+    return state;
+  }
+
+  return { getState, setState, useStore };
+}
@@ -0,0 +1,183 @@
+import * as React from "react";
+import { usePipecatClient, usePipecatClientMediaDevices, useRTVIClientEvent } from "@pipecat-ai/client-react";
+import { RTVIEvent, type DeviceError } from "@pipecat-ai/client-js";
+import { createPersistentStore } from "@/hooks/create-persistent-store";
+import { toast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/use-translation";
+import {
+  AUDIO_DEVICES_STORAGE_KEY,
+  audioDevicePreferencesSchema,
+  DEFAULT_AUDIO_DEVICE_PREFERENCES,
+  defaultDevice,
+  findChosenDevice,
+  toDeviceChoice,
+  type AudioDeviceKind,
+  type AudioDevicePreferences,
+  type DeviceChoice,
+} from "@/lib/audio-devices";
+
+const audioDevicePreferencesStore = createPersistentStore<AudioDevicePreferences>({
+  key: AUDIO_DEVICES_STORAGE_KEY,
+  schema: audioDevicePreferencesSchema,
+  defaultState: DEFAULT_AUDIO_DEVICE_PREFERENCES,
+});
+const { getState, setState } = audioDevicePreferencesStore;
+
+// The device each kind was last switched to, so the fallback doesn't switch again while the client catches up
+const requestedDeviceIds: Record<AudioDeviceKind, string | null> = { mic: null, speaker: null };
+
+function switchDevice(kind: AudioDeviceKind, deviceId: string, update: (deviceId: string) => void) {
+  requestedDeviceIds[kind] = deviceId;
+  update(deviceId);
+}
+
+function rememberDevice(kind: AudioDeviceKind, device: MediaDeviceInfo) {
+  try {
+    setState({ ...getState(), [kind]: toDeviceChoice(device) });
+  } catch {
+    // The switch still holds for this session; it just won't be remembered
+  }
+}
+
+// The client reports "no selection" as an empty object
+function asDevice(info: MediaDeviceInfo | Record<string, never>): MediaDeviceInfo | null {
+  return (info as MediaDeviceInfo).deviceId ? (info as MediaDeviceInfo) : null;
+}
+
+function useAudioDevicePreferences() {
+  return audioDevicePreferencesStore.useStore();
+}
+
+/**
+ * Microphones and speakers as the Pipecat client lists them. Picking one
+ * switches to it right away, mid-call included, and remembers it.
+ */
+function useAudioDevices() {
+  const pipecatClient = usePipecatClient();
+  const { availableMics, availableSpeakers, selectedMic, selectedSpeaker, updateMic, updateSpeaker } =
+    usePipecatClientMediaDevices();
+  const preferences = useAudioDevicePreferences();
+
+  const selectMic = React.useCallback(
+    (device: MediaDeviceInfo) => {
+      console.log("🎙️ Switching microphone to:", device.label || device.deviceId);
+      switchDevice("mic", device.deviceId, updateMic);
+      rememberDevice("mic", device);
+    },
+    [updateMic]
+  );
+
+  const selectSpeaker = React.useCallback(
+    (device: MediaDeviceInfo) => {
+      console.log("🔊 Switching speaker to:", device.label || device.deviceId);
+      switchDevice("speaker", device.deviceId, updateSpeaker);
+      rememberDevice("speaker", device);
+    },
+    [updateSpeaker]
+  );
+
+  // Before the first call the lists are empty; this asks for mic permission and lists the devices
+  const detectDevices = React.useCallback(async () => {
+    try {
+      await pipecatClient?.initDevices();
+    } catch (error) {
+      console.error("❌ Failed to list audio devices:", error);
+    }
+  }, [pipecatClient]);
+
+  return {
+    mics: availableMics,
+    speakers: availableSpeakers,
+    selectedMic: asDevice(selectedMic),
+    selectedSpeaker: asDevice(selectedSpeaker),
+    preferences,
+    selectMic,
+    selectSpeaker,
+    detectDevices,
+  };
+}
+
+function useDeviceFallback(
+  kind: AudioDeviceKind,
+  devices: MediaDeviceInfo[],
+  selected: MediaDeviceInfo | null,
+  choice: DeviceChoice | null,
+  update: (deviceId: string) => void
+) {
+  const { t } = useTranslation();
+  const previousDevicesRef = React.useRef<MediaDeviceInfo[]>([]);
+  const previousSelectedRef = React.useRef<MediaDeviceInfo | null>(null);
+
+  React.useEffect(() => {
+    const previousDevices = previousDevicesRef.current;
+    const previousSelected = previousSelectedRef.current;
+    previousDevicesRef.current = devices;
+    previousSelectedRef.current = selected;
+
+    // The remembered device is here (again): make sure it's the one in use, unless it was
+    // just switched to (the picker does that itself). Without labels the browser hasn't
+    // granted mic access yet, and switching would prompt for it.
+    const chosen = findChosenDevice(devices, choice);
+    if (chosen) {
+      const hasAccess = devices.some((device) => device.label);
+      if (selected?.deviceId === chosen.deviceId) {
+        requestedDeviceIds[kind] = null;
+      } else if (hasAccess && requestedDeviceIds[kind] !== chosen.deviceId) {
+        switchDevice(kind, chosen.deviceId, update);
+      }
+      return;
+    }
+
+    // The client may already have moved off a device that went away, so check what was in use before too
+    const isGone = (device: MediaDeviceInfo | null) =>
+      !!device &&
+      previousDevices.some((previous) => previous.deviceId === device.deviceId) &&
+      !devices.some((current) => current.deviceId === device.deviceId);
+    const lost = [previousSelected, selected, findChosenDevice(previousDevices, choice)].find(isGone);
+    if (!lost) return;
+
+    const fallback = defaultDevice(devices);
+    console.warn(`⚠️ ${kind} "${lost.label}" was unplugged, falling back to:`, fallback?.label ?? "none");
+    if (fallback && fallback.deviceId !== selected?.deviceId) switchDevice(kind, fallback.deviceId, update);
+    toast({
+      title: t(kind === "mic" ? "devices.micUnplugged.title" : "devices.speakerUnplugged.title"),
+      description: t("devices.unplugged.description", {
+        device: lost.label || t("devices.unnamed"),
+        fallback: fallback?.label || t("devices.systemDefault"),
+      }),
+      variant: "destructive",
+    });
+  }, [kind, devices, selected, choice, update, t]);
+}
+
+/**
+ * Keeps the remembered microphone and speaker in use: re-applies them when the
+ * client lists devices (on connect or replug), and falls back to the default
+ * with a toast when one is unplugged. Mount once.
+ */
+function useAudioDeviceFallback() {
+  const { t } = useTranslation();
+  const { availableMics, availableSpeakers, selectedMic, selectedSpeaker, updateMic, updateSpeaker } =
+    usePipecatClientMediaDevices();
+  const preferences = useAudioDevicePreferences();
+
+  useDeviceFallback("mic", availableMics, asDevice(selectedMic), preferences.mic, updateMic);
+  useDeviceFallback("speaker", availableSpeakers, asDevice(selectedSpeaker), preferences.speaker, updateSpeaker);
+
+  useRTVIClientEvent(
+    RTVIEvent.DeviceError,
+    React.useCallback(
+      (error: DeviceError) => {
+        console.error("🚨 Audio device error:", error);
+        toast({
+          title: t("devices.error.title"),
+          description: error.message || t("devices.error.description"),
+          variant: "destructive",
+        });
+      },
+      [t]
+    )
+  );
+}
+
+export { useAudioDevices, useAudioDeviceFallback };
@@ -0,0 +1,29 @@
+import { createPersistentStore } from "@/hooks/create-persistent-store";
+import { BUYER_PROFILE_STORAGE_KEY, buyerProfileSchema, type BuyerProfile } from "@/lib/buyer-profile";
+
+const buyerProfileStore = createPersistentStore<BuyerProfile | null>({
+  key: BUYER_PROFILE_STORAGE_KEY,
+  schema: buyerProfileSchema.nullable(),
+  defaultState: null,
+});
+const { setState } = buyerProfileStore;
+
+function saveProfile(profile: BuyerProfile) {
+  setState(profile);
+}
+
+function clearProfile() {
+  setState(null);
+}
+
+function useBuyerProfile() {
+  const profile = buyerProfileStore.useStore();
+
+  return {
+    profile,
+    saveProfile,
+    clearProfile,
+  };
+}
+
+export { useBuyerProfile };
@@ -0,0 +1,29 @@
+import { createPersistentStore } from "@/hooks/create-persistent-store";
+import {
+  CHAT_SETTINGS_STORAGE_KEY,
+  chatSettingsSchema,
+  DEFAULT_CHAT_SETTINGS,
+  type ChatSettings,
+} from "@/lib/chat-settings";
+
+const chatSettingsStore = createPersistentStore<ChatSettings>({
+  key: CHAT_SETTINGS_STORAGE_KEY,
+  schema: chatSettingsSchema,
+  defaultState: DEFAULT_CHAT_SETTINGS,
+});
+const { getState, setState } = chatSettingsStore;
+
+function updateChatSettings(patch: Partial<ChatSettings>) {
+  setState({ ...getState(), ...patch });
+}
+
+function useChatSettings() {
+  const settings = chatSettingsStore.useStore();
+
+  return {
+    settings,
+    updateChatSettings,
+  };
+}
+
+export { useChatSettings };
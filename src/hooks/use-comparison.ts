@@ -0,0 +1,81 @@
+import * as React from "react";
+import { MAX_COMPARE } from "@/lib/property-comparison";
+import type { Property } from "@/lib/server-messages";
+
+interface ComparisonState {
+  selected: Property[];
+  /** Whether the comparison dialog is showing; the bot can open it too */
+  isOpen: boolean;
+}
+
+// Selection only lives for the session; the shortlist is what gets persisted
+const listeners: Array<(state: ComparisonState) => void> = [];
+
+let memoryState: ComparisonState = { selected: [], isOpen: false };
+
+function setState(patch: Partial<ComparisonState>) {
+  memoryState = { ...memoryState, ...patch };
+  listeners.forEach((listener) => listener(memoryState));
+}
+
+function isSelected(id: string) {
+  return memoryState.selected.some((property) => property.id === id);
+}
+
+function toggleCompare(property: Property) {
+  if (isSelected(property.id)) {
+    setState({ selected: memoryState.selected.filter((selected) => selected.id !== property.id) });
+  } else if (memoryState.selected.length < MAX_COMPARE) {
+    setState({ selected: [...memoryState.selected, property] });
+  }
+}
+
+/** Adds without toggling; returns false when the comparison is already full. */
+function addToCompare(property: Property) {
+  if (isSelected(property.id)) return true;
+  if (memoryState.selected.length >= MAX_COMPARE) return false;
+  setState({ selected: [...memoryState.selected, property] });
+  return true;
+}
+
+function removeFromCompare(id: string) {
+  setState({ selected: memoryState.selected.filter((property) => property.id !== id) });
+}
+
+function clearCompare() {
+  setState({ selected: [] });
+}
+
+function setComparisonOpen(isOpen: boolean) {
+  setState({ isOpen });
+}
+
+function useComparison() {
+  const [state, setLocalState] = React.useState<ComparisonState>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setLocalState);
+    return () => {
+      const index = listeners.indexOf(setLocalState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  const { selected, isOpen } = state;
+
+  return {
+    selected,
+    isOpen,
+    isSelected: (id: string) => selected.some((property) => property.id === id),
+    isFull: selected.length >= MAX_COMPARE,
+    toggleCompare,
+    addToCompare,
+    removeFromCompare,
+    clearCompare,
+    setComparisonOpen,
+  };
+}
+
+export { useComparison };
@@ -0,0 +1,68 @@
+import { createPersistentStore } from "@/hooks/create-persistent-store";
+import {
+  CONNECTION_SETTINGS_STORAGE_KEY,
+  connectionSettingsSchema,
+  createConnectionProfile,
+  DEFAULT_CONNECTION_SETTINGS,
+  getActiveProfile,
+  type ConnectionProfile,
+  type ConnectionSettings,
+} from "@/lib/connection-profiles";
+
+const connectionSettingsStore = createPersistentStore<ConnectionSettings>({
+  key: CONNECTION_SETTINGS_STORAGE_KEY,
+  schema: connectionSettingsSchema,
+  defaultState: DEFAULT_CONNECTION_SETTINGS,
+});
+const { getState, setState } = connectionSettingsStore;
+
+/** Adds a profile or replaces the one with the same id. */
+function saveProfile(profile: ConnectionProfile) {
+  const { profiles, active_profile_id } = getState();
+  const exists = profiles.some((existing) => existing.id === profile.id);
+  setState({
+    profiles: exists
+      ? profiles.map((existing) => (existing.id === profile.id ? profile : existing))
+      : [...profiles, profile],
+    active_profile_id,
+  });
+}
+
+/** Copies `base` under a new name and returns the copy. */
+function duplicateProfile(base: ConnectionProfile, name: string) {
+  const profile = createConnectionProfile(base, name);
+  saveProfile(profile);
+  return profile;
+}
+
+/** The last profile can't be removed; removing the active one activates the first left. */
+function removeProfile(id: string) {
+  const { profiles, active_profile_id } = getState();
+  if (profiles.length <= 1) return;
+  const remaining = profiles.filter((profile) => profile.id !== id);
+  setState({
+    profiles: remaining,
+    active_profile_id: active_profile_id === id ? remaining[0].id : active_profile_id,
+  });
+}
+
+function setActiveProfile(id: string) {
+  const state = getState();
+  if (!state.profiles.some((profile) => profile.id === id)) return;
+  setState({ ...state, active_profile_id: id });
+}
+
+function useConnectionProfiles() {
+  const settings = connectionSettingsStore.useStore();
+
+  return {
+    profiles: settings.profiles,
+    activeProfile: getActiveProfile(settings),
+    saveProfile,
+    duplicateProfile,
+    removeProfile,
+    setActiveProfile,
+  };
+}
+
+export { useConnectionProfiles };
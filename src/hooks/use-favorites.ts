@@ -0,0 +1,57 @@
+import * as React from "react";
+import { createPersistentStore, lenientArray } from "@/hooks/create-persistent-store";
+import { createFavorite, FAVORITES_STORAGE_KEY, favoriteSchema, type Favorite } from "@/lib/favorites";
+import type { Property } from "@/lib/server-messages";
+
+const favoritesStore = createPersistentStore<Favorite[]>({
+  key: FAVORITES_STORAGE_KEY,
+  schema: lenientArray(favoriteSchema),
+  defaultState: [],
+});
+const { getState, setState } = favoritesStore;
+
+function isFavorite(id: string) {
+  return getState().some((favorite) => favorite.property.id === id);
+}
+
+function addFavorite(property: Property, searchQuery: string | null = null) {
+  if (isFavorite(property.id)) return;
+  setState([createFavorite(property, searchQuery), ...getState()]);
+}
+
+function removeFavorite(id: string) {
+  setState(getState().filter((favorite) => favorite.property.id !== id));
+}
+
+function toggleFavorite(property: Property, searchQuery: string | null = null) {
+  if (isFavorite(property.id)) {
+    removeFavorite(property.id);
+  } else {
+    addFavorite(property, searchQuery);
+  }
+}
+
+function clearFavorites() {
+  setState([]);
+}
+
+function useFavorites() {
+  const favorites = favoritesStore.useStore();
+
+  const favoriteIds = React.useMemo(
+    () => new Set(favorites.map((favorite) => favorite.property.id)),
+    [favorites]
+  );
+
+  return {
+    favorites,
+    favoriteIds,
+    isFavorite: (id: string) => favoriteIds.has(id),
+    addFavorite,
+    removeFavorite,
+    toggleFavorite,
+    clearFavorites,
+  };
+}
+
+export { useFavorites };
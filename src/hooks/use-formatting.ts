@@ -0,0 +1,34 @@
+import * as React from "react";
+import { createPersistentStore } from "@/hooks/create-persistent-store";
+import {
+  createFormatters,
+  DEFAULT_FORMAT_SETTINGS,
+  FORMAT_SETTINGS_STORAGE_KEY,
+  formatSettingsSchema,
+  type FormatSettings,
+} from "@/lib/formatting";
+
+const formatSettingsStore = createPersistentStore<FormatSettings>({
+  key: FORMAT_SETTINGS_STORAGE_KEY,
+  schema: formatSettingsSchema,
+  defaultState: DEFAULT_FORMAT_SETTINGS,
+});
+const { getState, setState } = formatSettingsStore;
+
+function updateFormatSettings(patch: Partial<FormatSettings>) {
+  setState({ ...getState(), ...patch });
+}
+
+function useFormatting() {
+  const settings = formatSettingsStore.useStore();
+
+  const formatters = React.useMemo(() => createFormatters(settings), [settings]);
+
+  return {
+    settings,
+    updateFormatSettings,
+    ...formatters,
+  };
+}
+
+export { useFormatting };
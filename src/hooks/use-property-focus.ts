@@ -0,0 +1,47 @@
+import * as React from "react";
+
+interface PropertyFocus {
+  propertyId: string;
+  /** Lets a repeated focus on the same property restart the highlight */
+  at: number;
+}
+
+// The property the bot or the chat last pointed at, shared by the chat and the grid
+const listeners: Array<(state: PropertyFocus | null) => void> = [];
+
+let memoryState: PropertyFocus | null = null;
+
+function setState(next: PropertyFocus | null) {
+  memoryState = next;
+  listeners.forEach((listener) => listener(memoryState));
+}
+
+function focusProperty(propertyId: string) {
+  setState({ propertyId, at: Date.now() });
+}
+
+function clearFocus() {
+  setState(null);
+}
+
+function usePropertyFocus() {
+  const [focus, setFocus] = React.useState<PropertyFocus | null>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setFocus);
+    return () => {
+      const index = listeners.indexOf(setFocus);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    focus,
+    focusProperty,
+    clearFocus,
+  };
+}
+
+export { usePropertyFocus };
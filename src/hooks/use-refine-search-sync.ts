@@ -0,0 +1,61 @@
+import * as React from "react";
+import { usePipecatClient, usePipecatClientTransportState } from "@pipecat-ai/client-react";
+import { sendRefineSearch } from "@/lib/client-messages";
+import { toFiltersApplied, type PropertyFilters, type PropertySort } from "@/lib/property-filters";
+import type { SearchResultData } from "@/lib/server-messages";
+
+const SYNC_DEBOUNCE_MS = 800;
+
+/**
+ * Keeps the bot's idea of the active filters in step with the Refine Search
+ * panel. Edits are debounced into a context-only update; `runSearch` asks the
+ * bot to search again, and its answer arrives as a normal
+ * `property_search_results` message.
+ */
+export function useRefineSearchSync(searchResults: SearchResultData | null) {
+  const pipecatClient = usePipecatClient();
+  const transportState = usePipecatClientTransportState();
+  const canSync = !!pipecatClient && !!searchResults && (transportState === "connected" || transportState === "ready");
+  const timeoutRef = React.useRef<ReturnType<typeof setTimeout>>();
+
+  const send = React.useCallback(
+    (filters: PropertyFilters, sort: PropertySort, runSearch: boolean) => {
+      if (!canSync) return;
+      try {
+        sendRefineSearch(pipecatClient, {
+          search_id: searchResults.search_id,
+          query: searchResults.query,
+          filters_applied: toFiltersApplied(filters, searchResults.filters_applied),
+          status: filters.status,
+          sort,
+          run_search: runSearch,
+        });
+      } catch (error) {
+        console.error("❌ Failed to send refined filters:", error);
+      }
+    },
+    [canSync, pipecatClient, searchResults]
+  );
+
+  const syncFilters = React.useCallback(
+    (filters: PropertyFilters, sort: PropertySort) => {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = setTimeout(() => send(filters, sort, false), SYNC_DEBOUNCE_MS);
+    },
+    [send]
+  );
+
+  const runSearch = React.useCallback(
+    (filters: PropertyFilters, sort: PropertySort) => {
+      clearTimeout(timeoutRef.current);
+      send(filters, sort, true);
+    },
+    [send]
+  );
+
+  // A pending update for the previous search must not clobber the new one
+  const searchId = searchResults?.search_id;
+  React.useEffect(() => () => clearTimeout(timeoutRef.current), [searchId]);
+
+  return { canSync, syncFilters, runSearch };
+}
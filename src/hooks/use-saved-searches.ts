@@ -0,0 +1,44 @@
+import { createPersistentStore, lenientArray } from "@/hooks/create-persistent-store";
+import { SAVED_SEARCHES_STORAGE_KEY, savedSearchSchema, type SavedSearch } from "@/lib/saved-searches";
+import type { FiltersApplied, SearchResultData } from "@/lib/server-messages";
+
+const savedSearchesStore = createPersistentStore<SavedSearch[]>({
+  key: SAVED_SEARCHES_STORAGE_KEY,
+  schema: lenientArray(savedSearchSchema),
+  defaultState: [],
+});
+const { getState, setState } = savedSearchesStore;
+
+function saveSearch(name: string, results: SearchResultData, filtersApplied: FiltersApplied): SavedSearch {
+  const search: SavedSearch = {
+    id: `saved-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim() || results.query,
+    saved_at: Date.now(),
+    query: results.query,
+    filters_applied: filtersApplied,
+    results,
+  };
+  setState([search, ...getState()]);
+  return search;
+}
+
+function updateSnapshot(id: string, results: SearchResultData) {
+  setState(getState().map((search) => (search.id === id ? { ...search, results, saved_at: Date.now() } : search)));
+}
+
+function deleteSearch(id: string) {
+  setState(getState().filter((search) => search.id !== id));
+}
+
+function useSavedSearches() {
+  const savedSearches = savedSearchesStore.useStore();
+
+  return {
+    savedSearches,
+    saveSearch,
+    updateSnapshot,
+    deleteSearch,
+  };
+}
+
+export { useSavedSearches };
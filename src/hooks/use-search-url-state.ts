@@ -0,0 +1,97 @@
+import * as React from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import type { PropertyFilters, PropertySort } from "@/lib/property-filters";
+import {
+  parseSearchUrl,
+  withFilters,
+  withSearch,
+  withSelectedProperty,
+  withSort,
+} from "@/lib/search-url";
+
+const DASHBOARD_PATH = "/";
+
+// Pages opened over the dashboard are linked with `state={{ from }}`, the dashboard URL they came from
+function fromParams(state: unknown): URLSearchParams {
+  const from = (state as { from?: string } | null)?.from;
+  if (!from) return new URLSearchParams();
+  return new URL(from, window.location.origin).searchParams;
+}
+
+/**
+ * The dashboard's deep-linkable search state. A new search adds a history
+ * entry so Back returns to the previous results; refinements replace the
+ * current entry so they don't flood the history.
+ *
+ * The dashboard stays mounted under the detail and settings pages. There its
+ * state comes from the URL it was left at, and a change (the bot searching or
+ * sorting mid-call) goes back to the dashboard so the results are in view.
+ */
+function useSearchUrlState() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const isOnDashboard = location.pathname === DASHBOARD_PATH;
+
+  // No card dialog stays open under another page; it reopens from the URL on the way back
+  const dashboardParams = React.useMemo(
+    () => (isOnDashboard ? searchParams : withSelectedProperty(fromParams(location.state), null)),
+    [isOnDashboard, searchParams, location.state]
+  );
+  const state = React.useMemo(() => parseSearchUrl(dashboardParams), [dashboardParams]);
+
+  const update = React.useCallback(
+    (change: (params: URLSearchParams) => URLSearchParams, { replace }: { replace: boolean }) => {
+      if (isOnDashboard) {
+        setSearchParams(change, { replace });
+      } else {
+        navigate({ pathname: DASHBOARD_PATH, search: `?${change(dashboardParams)}` });
+      }
+    },
+    [isOnDashboard, dashboardParams, setSearchParams, navigate]
+  );
+
+  const setSearch = React.useCallback(
+    (searchId: string, query: string, { replace = false }: { replace?: boolean } = {}) =>
+      update((params) => withSearch(params, searchId, query), { replace }),
+    [update]
+  );
+
+  const setFilters = React.useCallback(
+    (filters: PropertyFilters, serverFilters: PropertyFilters) =>
+      update((params) => withFilters(params, filters, serverFilters), { replace: true }),
+    [update]
+  );
+
+  const setSort = React.useCallback(
+    (sort: PropertySort) => update((params) => withSort(params, sort), { replace: true }),
+    [update]
+  );
+
+  const setSelectedProperty = React.useCallback(
+    (propertyId: string | null) => update((params) => withSelectedProperty(params, propertyId), { replace: true }),
+    [update]
+  );
+
+  // Opens the full detail page the way a card's link does, so Back returns to these results
+  const openPropertyPage = React.useCallback(
+    (propertyId: string) => {
+      const search = dashboardParams.toString();
+      const from = search ? `${DASHBOARD_PATH}?${search}` : DASHBOARD_PATH;
+      navigate(`/property/${encodeURIComponent(propertyId)}`, { state: { from } });
+    },
+    [dashboardParams, navigate]
+  );
+
+  return {
+    ...state,
+    isOnDashboard,
+    setSearch,
+    setFilters,
+    setSort,
+    setSelectedProperty,
+    openPropertyPage,
+  };
+}
+
+export { useSearchUrlState };
@@ -0,0 +1,41 @@
+import * as React from "react";
+import type {
+  ServerMessageFallbackHandler,
+  ServerMessageHandler,
+  ServerMessageRouter,
+} from "@/lib/server-message-router";
+import type { ServerMessageType } from "@/lib/server-messages";
+
+export const ServerMessageRouterContext = React.createContext<ServerMessageRouter | null>(null);
+
+export function useServerMessageRouter() {
+  const router = React.useContext(ServerMessageRouterContext);
+  if (!router) {
+    throw new Error("useServerMessageRouter must be used within a ServerMessageProvider");
+  }
+  return router;
+}
+
+/** Subscribes to one server message type with a fully typed, validated payload. */
+export function useServerMessageHandler<T extends ServerMessageType>(type: T, handler: ServerMessageHandler<T>) {
+  const router = useServerMessageRouter();
+  const handlerRef = React.useRef(handler);
+  handlerRef.current = handler;
+
+  React.useEffect(
+    () => router.register(type, (message) => handlerRef.current(message)),
+    [router, type]
+  );
+}
+
+/** Receives messages that have no schema or fail validation. */
+export function useServerMessageFallback(handler: ServerMessageFallbackHandler) {
+  const router = useServerMessageRouter();
+  const handlerRef = React.useRef(handler);
+  handlerRef.current = handler;
+
+  React.useEffect(
+    () => router.registerFallback((error, raw) => handlerRef.current(error, raw)),
+    [router]
+  );
+}
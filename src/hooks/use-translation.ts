@@ -0,0 +1,49 @@
+import * as React from "react";
+import { createPersistentStore } from "@/hooks/create-persistent-store";
+import {
+  DATE_LOCALES,
+  detectLanguage,
+  LANGUAGE_STORAGE_KEY,
+  languageSchema,
+  translate,
+  type Language,
+  type MessageKey,
+  type MessageParams,
+} from "@/lib/i18n";
+
+const languageStore = createPersistentStore<Language>({
+  key: LANGUAGE_STORAGE_KEY,
+  schema: languageSchema,
+  defaultState: detectLanguage(),
+  onChange: (language) => {
+    document.documentElement.lang = language;
+  },
+});
+const { getState, setState } = languageStore;
+
+/** Current language outside React, e.g. when building connect requestData */
+function getLanguage() {
+  return getState();
+}
+
+function setLanguage(language: Language) {
+  setState(language);
+}
+
+function useTranslation() {
+  const language = languageStore.useStore();
+
+  const t = React.useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    [language]
+  );
+
+  return {
+    language,
+    setLanguage,
+    t,
+    dateLocale: DATE_LOCALES[language],
+  };
+}
+
+export { useTranslation, getLanguage };
@@ -0,0 +1,58 @@
+import { usePipecatClient } from "@pipecat-ai/client-react";
+import { useServerMessageFallback, useServerMessageHandler } from "@/hooks/use-server-messages";
+import { sendUiActionResult, type UiActionResultMessage } from "@/lib/client-messages";
+import { isReplayedEvent } from "@/lib/session-recording";
+import type { UiAction } from "@/lib/server-messages";
+import { UiActionError } from "@/lib/ui-actions";
+
+type UiActionHandler = (action: UiAction) => Record<string, unknown> | void;
+
+/**
+ * Carries out the bot's `ui_action` messages and acknowledges each one with a
+ * `ui_action_result`. Throw a UiActionError from `handler` to report why an
+ * action could not be done.
+ */
+export function useUiActions(handler: UiActionHandler) {
+  const pipecatClient = usePipecatClient();
+
+  const reply = (message: UiActionResultMessage) => {
+    // A replayed action already got its answer in the recorded call
+    if (!pipecatClient || isReplayedEvent()) return;
+    try {
+      sendUiActionResult(pipecatClient, message);
+    } catch (error) {
+      console.error("❌ Failed to acknowledge UI action:", error);
+    }
+  };
+
+  useServerMessageHandler("ui_action", (action) => {
+    console.log("📍 Received UI action:", action);
+    try {
+      const result = handler(action);
+      reply({ action_id: action.action_id, action: action.action, status: "ok", ...(result ? { result } : {}) });
+    } catch (error) {
+      console.error(`❌ UI action "${action.action}" failed:`, error);
+      reply({
+        action_id: action.action_id,
+        action: action.action,
+        status: "error",
+        reason: error instanceof UiActionError ? error.reason : "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  // Malformed or unknown actions still get an answer so the bot isn't left waiting
+  useServerMessageFallback((error, raw) => {
+    if (error.messageType !== "ui_action") return false;
+    const { action_id, action } = (raw ?? {}) as { action_id?: unknown; action?: unknown };
+    reply({
+      action_id: typeof action_id === "string" ? action_id : "",
+      action: typeof action === "string" ? action : "",
+      status: "error",
+      reason: "invalid_action",
+      error: error.message,
+    });
+    return true;
+  });
+}
@@ -0,0 +1,36 @@
+import * as React from "react";
+import type { APIRequest, TransportState } from "@pipecat-ai/client-js";
+import type { VoiceSessionStatus } from "@/lib/voice-session";
+
+export interface VoiceSession {
+  status: VoiceSessionStatus;
+  transportState: TransportState;
+  /** Transport up, whether or not the bot is ready yet */
+  isConnected: boolean;
+  /** A first connect or a reconnect is under way */
+  isConnecting: boolean;
+  /** Reconnect attempts since the call was last ready */
+  retryCount: number;
+  /** Wait before the pending reconnect attempt, while `reconnecting` */
+  retryDelayMs: number | null;
+  lastError: Error | null;
+  /** The bot is ready again after an earlier call on this page, and starts without that call's context */
+  isResumed: boolean;
+  /**
+   * Starts the bot, joins, and remembers `request` for reconnects. Rejects if
+   * this first attempt fails or times out; a disconnect() meanwhile just cancels it.
+   */
+  connect: (request: APIRequest) => Promise<void>;
+  /** Ends the call on purpose; no reconnect follows. */
+  disconnect: () => Promise<void>;
+}
+
+export const VoiceSessionContext = React.createContext<VoiceSession | null>(null);
+
+export function useVoiceSession() {
+  const session = React.useContext(VoiceSessionContext);
+  if (!session) {
+    throw new Error("useVoiceSession must be used within a VoiceSessionProvider");
+  }
+  return session;
+}
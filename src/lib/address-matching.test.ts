@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { findAddressMentions } from "@/lib/address-matching";
+import { makeProperty } from "@/test/fixtures";
+
+const maple = makeProperty({ id: "maple", details: { address: "12 Maple Street, Springfield" } });
+const oak = makeProperty({ id: "oak", details: { address: "7 Oak Avenue, Springfield" } });
+
+const mentioned = (text: string, properties = [maple, oak]) =>
+  findAddressMentions(text, properties).map(({ property, start, end }) => [property.id, text.slice(start, end)]);
+
+describe("findAddressMentions", () => {
+  it("finds full and abbreviated street lines", () => {
+    expect(mentioned("The 12 Maple Street home and 7 oak ave. are both open Sunday.")).toEqual([
+      ["maple", "12 Maple Street"],
+      ["oak", "7 oak ave."],
+    ]);
+  });
+
+  it("finds a street name with its suffix but not alone", () => {
+    expect(mentioned("The one on Maple St has a big yard.")).toEqual([["maple", "Maple St"]]);
+    expect(mentioned("I love the maple trees here.")).toEqual([]);
+  });
+
+  it("needs the whole number", () => {
+    expect(mentioned("Try 112 Maple Street instead.")).toEqual([["maple", "Maple Street"]]);
+  });
+
+  it("keeps the longest of overlapping mentions", () => {
+    expect(mentioned("Look at 12 Maple St.")).toEqual([["maple", "12 Maple St."]]);
+  });
+
+  it("leaves out a mention that fits two properties", () => {
+    const twin = makeProperty({ id: "twin", details: { address: "30 Maple Street, Springfield" } });
+
+    expect(mentioned("Both homes on Maple Street are new.", [maple, twin, oak])).toEqual([]);
+    expect(mentioned("Both homes on Maple Street are new, like 7 Oak Avenue is", [maple, twin, oak])).toEqual([
+      ["oak", "7 Oak Avenue"],
+    ]);
+    expect(mentioned("I mean 30 Maple Street, the new one", [maple, twin])).toEqual([["twin", "30 Maple Street"]]);
+  });
+
+  it("skips addresses with no street name", () => {
+    const numberOnly = makeProperty({ id: "n", details: { address: "42, Springfield" } });
+
+    expect(mentioned("Unit 42 is free.", [numberOnly])).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import type { Property } from "@/lib/server-messages";
+
+// Spoken and written forms of common street suffixes
+const STREET_SUFFIXES: string[][] = [
+  ["street", "st"],
+  ["avenue", "ave", "av"],
+  ["road", "rd"],
+  ["drive", "dr"],
+  ["lane", "ln"],
+  ["court", "ct"],
+  ["boulevard", "blvd"],
+  ["place", "pl"],
+  ["terrace", "ter"],
+  ["circle", "cir"],
+  ["parkway", "pkwy"],
+  ["highway", "hwy"],
+  ["way"],
+];
+
+export interface AddressMention {
+  property: Property;
+  /** Character range of the mention in the text */
+  start: number;
+  end: number;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds a pattern for the street line of an address, e.g. "12 Maple Street"
+ * matches "12 Maple Street", "12 maple st." and "Maple Street". The street
+ * name alone ("Maple") is too ambiguous, so the number or the suffix must be there too.
+ */
+function addressPattern(address: string): RegExp | null {
+  const words = address.split(",")[0].toLowerCase().split(/[\s-]+/).filter(Boolean);
+  const number = /^\d+[a-z]?$/.test(words[0] ?? "") ? words.shift() : null;
+  const suffixes = STREET_SUFFIXES.find((forms) => forms.includes(words[words.length - 1]?.replace(/\.$/, "")));
+  if (suffixes) words.pop();
+  if (words.length === 0) return null;
+
+  const name = words.map(escapeRegExp).join("[\\s-]+");
+  const suffix = suffixes ? `(?:${suffixes.map(escapeRegExp).join("|")})\\.?` : null;
+  const alternatives = [
+    number && `${escapeRegExp(number)}\\s+${name}${suffix ? `(?:\\s+${suffix})?` : ""}`,
+    suffix && `${name}\\s+${suffix}`,
+  ].filter(Boolean);
+  if (alternatives.length === 0) return null;
+  return new RegExp(`\\b(?:${alternatives.join("|")})(?![\\w])`, "gi");
+}
+
+/**
+ * Finds addresses of `properties` mentioned in free text such as a bot
+ * transcript. Overlapping mentions keep the longest; a mention that fits more
+ * than one property (two homes on Maple Street) is left out as ambiguous.
+ */
+export function findAddressMentions(text: string, properties: Property[]): AddressMention[] {
+  const candidates: AddressMention[] = [];
+  for (const property of properties) {
+    const pattern = addressPattern(property.details.address);
+    if (!pattern) continue;
+    for (const match of text.matchAll(pattern)) {
+      candidates.push({ property, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+  const mentions: AddressMention[] = [];
+  // Spans that fit more than one property: nobody can tell which one was meant
+  const ambiguous = new Set<AddressMention>();
+  for (const candidate of candidates) {
+    const last = mentions[mentions.length - 1];
+    if (last && candidate.start < last.end) {
+      if (candidate.start === last.start && candidate.end === last.end && candidate.property.id !== last.property.id) {
+        ambiguous.add(last);
+      }
+      continue;
+    }
+    mentions.push(candidate);
+  }
+  return mentions.filter((mention) => !ambiguous.has(mention));
+}
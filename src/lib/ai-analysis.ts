@@ -0,0 +1,32 @@
+export interface AnalysisSection {
+  /** Text before the first colon on a "Label: text" line, if any */
+  heading: string | null;
+  lines: string[];
+}
+
+// Labels longer than this are treated as prose that happens to contain a colon
+const MAX_HEADING_LENGTH = 40;
+
+/**
+ * Splits the bot's free-text `ai_analysis_raw` into sections. Lines shaped
+ * like "Strengths: ..." start a new section; bullet markers are stripped.
+ */
+export function parseAnalysis(raw: string | null | undefined): AnalysisSection[] {
+  if (!raw?.trim()) return [];
+
+  const sections: AnalysisSection[] = [];
+  for (const rawLine of raw.split("\n")) {
+    const line = rawLine.trim().replace(/^[-*•]\s+/, "");
+    if (!line) continue;
+
+    const match = line.match(/^([^:]+):\s*(.*)$/);
+    if (match && match[1].length <= MAX_HEADING_LENGTH) {
+      sections.push({ heading: match[1].trim(), lines: match[2] ? [match[2]] : [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line);
+    } else {
+      sections.push({ heading: null, lines: [line] });
+    }
+  }
+  return sections;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { defaultDevice, findChosenDevice, toDeviceChoice } from "@/lib/audio-devices";
+
+const device = (deviceId: string, label: string) => ({ deviceId, label, kind: "audioinput", groupId: "" }) as MediaDeviceInfo;
+
+const builtIn = device("built-in", "MacBook Microphone");
+const headset = device("headset-1", "USB Headset");
+const systemDefault = device("default", "Default - MacBook Microphone");
+
+describe("findChosenDevice", () => {
+  it("matches the saved device id first", () => {
+    const renamed = device("headset-1", "USB Headset (2)");
+
+    expect(findChosenDevice([builtIn, renamed], toDeviceChoice(headset))).toBe(renamed);
+  });
+
+  it("falls back to the label when the id changed", () => {
+    const newId = device("headset-2", "USB Headset");
+
+    expect(findChosenDevice([builtIn, newId], toDeviceChoice(headset))).toBe(newId);
+  });
+
+  it("doesn't match on an empty label", () => {
+    const unlabelled = device("other", "");
+
+    expect(findChosenDevice([unlabelled], { device_id: "gone", label: "" })).toBeNull();
+  });
+
+  it("finds nothing without a choice or a matching device", () => {
+    expect(findChosenDevice([builtIn], null)).toBeNull();
+    expect(findChosenDevice([builtIn], toDeviceChoice(headset))).toBeNull();
+  });
+});
+
+describe("defaultDevice", () => {
+  it("prefers the browser's default entry, then the first device", () => {
+    expect(defaultDevice([headset, systemDefault])).toBe(systemDefault);
+    expect(defaultDevice([headset, builtIn])).toBe(headset);
+    expect(defaultDevice([])).toBeNull();
+  });
+});
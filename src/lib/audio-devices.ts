@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+export const AUDIO_DEVICES_STORAGE_KEY = "dwelling-scribe:audio-devices";
+
+export type AudioDeviceKind = "mic" | "speaker";
+
+export const deviceChoiceSchema = z.object({
+  device_id: z.string(),
+  /** Device ids can change between sessions (e.g. after clearing site data); the label is the fallback match */
+  label: z.string(),
+});
+
+export type DeviceChoice = z.infer<typeof deviceChoiceSchema>;
+
+export const audioDevicePreferencesSchema = z.object({
+  mic: deviceChoiceSchema.nullable().default(null),
+  speaker: deviceChoiceSchema.nullable().default(null),
+});
+
+export type AudioDevicePreferences = z.infer<typeof audioDevicePreferencesSchema>;
+
+export const DEFAULT_AUDIO_DEVICE_PREFERENCES: AudioDevicePreferences = audioDevicePreferencesSchema.parse({});
+
+export function toDeviceChoice(device: MediaDeviceInfo): DeviceChoice {
+  return { device_id: device.deviceId, label: device.label };
+}
+
+/** The listed device a saved choice refers to, by id first and then by label. */
+export function findChosenDevice(devices: MediaDeviceInfo[], choice: DeviceChoice | null): MediaDeviceInfo | null {
+  if (!choice) return null;
+  return (
+    devices.find((device) => device.deviceId === choice.device_id) ??
+    (choice.label ? devices.find((device) => device.label === choice.label) : undefined) ??
+    null
+  );
+}
+
+/** The browser's "default" entry when it lists one, otherwise the first device. */
+export function defaultDevice(devices: MediaDeviceInfo[]): MediaDeviceInfo | null {
+  return devices.find((device) => device.deviceId === "default") ?? devices[0] ?? null;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { assessAffordability, type BuyerProfile } from "@/lib/buyer-profile";
+import { createFormatters, DEFAULT_FORMAT_SETTINGS } from "@/lib/formatting";
+import { makeProperty } from "@/test/fixtures";
+
+const profile: BuyerProfile = {
+  annual_income: 150_000,
+  max_budget: 0,
+  down_payment: 90_000,
+  annual_rate: 6,
+  term_years: 30,
+};
+const { priceScale } = createFormatters(DEFAULT_FORMAT_SETTINGS);
+const usd = priceScale(["USD"]);
+
+const levelFor = (price: number, overrides: Partial<BuyerProfile> = {}) =>
+  assessAffordability(makeProperty({ details: { price } }), { ...profile, ...overrides }, usd)?.level;
+
+describe("assessAffordability", () => {
+  it("grades the monthly cost against income", () => {
+    expect(levelFor(450_000)).toBe("affordable");
+    expect(levelFor(600_000)).toBe("stretch");
+    expect(levelFor(900_000)).toBe("over_budget");
+  });
+
+  it("is over budget above the max budget, whatever the income", () => {
+    expect(levelFor(450_000, { max_budget: 400_000 })).toBe("over_budget");
+  });
+
+  it("judges by the budget alone without an income", () => {
+    expect(levelFor(450_000, { annual_income: 0, max_budget: 500_000 })).toBe("affordable");
+    expect(levelFor(550_000, { annual_income: 0, max_budget: 500_000 })).toBe("over_budget");
+  });
+
+  it("has nothing to judge without an income or a budget", () => {
+    expect(levelFor(450_000, { annual_income: 0 })).toBeUndefined();
+  });
+
+  it("converts the price into the profile's currency", () => {
+    const euros = makeProperty({ details: { price: 460_000, currency: "EUR" } });
+    const eurProfile = { ...profile, annual_income: 0, max_budget: 480_000 };
+
+    expect(assessAffordability(euros, eurProfile, usd)?.level).toBe("over_budget");
+    expect(assessAffordability(euros, eurProfile, priceScale(["EUR"]))?.level).toBe("affordable");
+  });
+});
@@ -0,0 +1,70 @@
+import { z } from "zod";
+import {
+  calculateMortgage,
+  DEFAULT_ANNUAL_INSURANCE,
+  DEFAULT_ANNUAL_RATE,
+  DEFAULT_TAX_RATE_PERCENT,
+  DEFAULT_TERM_YEARS,
+} from "@/lib/mortgage";
+import type { PriceScale } from "@/lib/formatting";
+import type { Property } from "@/lib/server-messages";
+
+export const BUYER_PROFILE_STORAGE_KEY = "dwelling-scribe:buyer-profile";
+
+export const buyerProfileSchema = z.object({
+  annual_income: z.number().nonnegative(),
+  /** Highest purchase price the buyer will consider */
+  max_budget: z.number().nonnegative(),
+  down_payment: z.number().nonnegative(),
+  annual_rate: z.number().nonnegative().default(DEFAULT_ANNUAL_RATE),
+  term_years: z.number().positive().default(DEFAULT_TERM_YEARS),
+});
+
+export type BuyerProfile = z.infer<typeof buyerProfileSchema>;
+
+export type Affordability = "affordable" | "stretch" | "over_budget";
+
+// Housing cost as a share of gross monthly income (the usual 28/36 lender rule)
+const AFFORDABLE_RATIO = 0.28;
+const STRETCH_RATIO = 0.36;
+
+export interface AffordabilityAssessment {
+  level: Affordability;
+  monthly_total: number;
+  /** Monthly housing cost over gross monthly income; null without an income */
+  income_ratio: number | null;
+}
+
+/**
+ * The profile's amounts are in `scale`'s currency, so the listing's price is
+ * converted into it first. Without an income only the budget is checked.
+ * Null when there's no rate to convert with, or neither an income nor a budget.
+ */
+export function assessAffordability(
+  property: Property,
+  profile: BuyerProfile,
+  scale: PriceScale
+): AffordabilityAssessment | null {
+  const price = scale.convert(property.details.price, property.details.currency);
+  if (price === null || (profile.annual_income <= 0 && profile.max_budget <= 0)) return null;
+  const { monthly_total } = calculateMortgage({
+    price,
+    down_payment: Math.min(profile.down_payment, price),
+    annual_rate: profile.annual_rate,
+    term_years: profile.term_years,
+    annual_taxes: (price * DEFAULT_TAX_RATE_PERCENT) / 100,
+    annual_insurance: DEFAULT_ANNUAL_INSURANCE,
+  });
+  const monthlyIncome = profile.annual_income / 12;
+  const incomeRatio = monthlyIncome > 0 ? monthly_total / monthlyIncome : null;
+
+  let level: Affordability;
+  if ((profile.max_budget > 0 && price > profile.max_budget) || (incomeRatio !== null && incomeRatio > STRETCH_RATIO)) {
+    level = "over_budget";
+  } else if (incomeRatio !== null && incomeRatio > AFFORDABLE_RATIO) {
+    level = "stretch";
+  } else {
+    level = "affordable";
+  }
+  return { level, monthly_total, income_ratio: incomeRatio };
+}
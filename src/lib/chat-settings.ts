@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const CHAT_SETTINGS_STORAGE_KEY = "dwelling-scribe:chat-settings";
+
+export const chatSettingsSchema = z.object({
+  /** Show what the user is saying while they speak, before the final transcript */
+  show_interim_transcripts: z.boolean().default(true),
+});
+
+export type ChatSettings = z.infer<typeof chatSettingsSchema>;
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = chatSettingsSchema.parse({});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { appendBotFragment, closeBotTurn, type ChatMessage } from "@/lib/chat-transcript";
+
+const at = (seconds: number) => new Date(2024, 0, 1, 12, 0, seconds);
+const texts = (messages: ChatMessage[]) => messages.map((message) => message.text);
+
+describe("appendBotFragment", () => {
+  it("opens a turn with its first fragment and appends the rest to it", () => {
+    const opened = appendBotFragment([], "turn-1", "Sorting by price.", at(0));
+    const messages = appendBotFragment(opened, "turn-1", "The cheapest one is at the top.", at(2));
+
+    expect(texts(messages)).toEqual(["Sorting by price. The cheapest one is at the top."]);
+    expect(messages[0]).toMatchObject({ id: "turn-1", timestamp: at(0), endedAt: at(2), isOwn: false });
+  });
+
+  it("keeps a fragment that arrives before the bot starts speaking in the same turn", () => {
+    // The fragment opens turn-1; BotStartedSpeaking then leaves the open turn alone
+    let messages = appendBotFragment([], "turn-1", "Sorting by price.", at(0));
+    messages = appendBotFragment(messages, "turn-1", "The cheapest one is at the top.", at(1));
+    messages = closeBotTurn(messages, "turn-1", at(3));
+
+    expect(texts(messages)).toEqual(["Sorting by price. The cheapest one is at the top."]);
+    expect(messages[0].endedAt).toEqual(at(3));
+  });
+
+  it("starts a new bubble for the next turn", () => {
+    let messages = appendBotFragment([], "turn-1", "Hi!", at(0));
+    messages = closeBotTurn(messages, "turn-1", at(1));
+    messages = appendBotFragment(messages, "turn-2", "Anything else?", at(5));
+
+    expect(texts(messages)).toEqual(["Hi!", "Anything else?"]);
+  });
+});
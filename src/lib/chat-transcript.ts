@@ -0,0 +1,33 @@
+import type { MessageKey } from "@/lib/i18n";
+
+export interface ChatMessage {
+  id: string;
+  text: string;
+  /** App-written messages are translated when shown, so they follow language changes */
+  textKey?: MessageKey;
+  /** When the message, or the bot's spoken turn, started */
+  timestamp: Date;
+  /** When a bot turn stopped speaking (or its latest fragment, while it's still talking) */
+  endedAt?: Date;
+  isOwn: boolean;
+  type: "text" | "transcription";
+}
+
+/**
+ * Adds a bot transcript fragment to its turn's bubble, or opens the bubble
+ * when it's the turn's first fragment. Fragments may arrive before the bot
+ * starts speaking, so it's the first fragment that opens a turn.
+ */
+export function appendBotFragment(messages: ChatMessage[], turnId: string, text: string, at: Date): ChatMessage[] {
+  const index = messages.findIndex((message) => message.id === turnId);
+  if (index === -1) {
+    return [...messages, { id: turnId, text, timestamp: at, endedAt: at, isOwn: false, type: "transcription" }];
+  }
+  const turn = messages[index];
+  return [...messages.slice(0, index), { ...turn, text: `${turn.text} ${text}`, endedAt: at }, ...messages.slice(index + 1)];
+}
+
+/** Marks when the bot stopped speaking; later fragments open a new turn. */
+export function closeBotTurn(messages: ChatMessage[], turnId: string, at: Date): ChatMessage[] {
+  return messages.map((message) => (message.id === turnId ? { ...message, endedAt: at } : message));
+}
@@ -0,0 +1,79 @@
+import type { PipecatClient } from "@pipecat-ai/client-js";
+import type { FiltersApplied } from "@/lib/server-messages";
+import type { PropertySort } from "@/lib/property-filters";
+
+/**
+ * Structured messages the dashboard sends to the bot with `sendClientMessage`.
+ * The bot-side handler is keyed on these `t` values.
+ */
+export const CLIENT_MESSAGE_TYPES = {
+  refineSearch: "refine_search",
+  rerunSearch: "rerun_search",
+  uiActionResult: "ui_action_result",
+  resumeSession: "resume_session",
+} as const;
+
+export interface RefineSearchMessage {
+  search_id: string;
+  query: string;
+  /** Same shape as the `filters_applied` the bot sent with the results */
+  filters_applied: FiltersApplied;
+  /** Client-only refinements the search backend may also honour */
+  status: string | null;
+  sort: PropertySort;
+  /** true asks the bot to re-run the search now; false only updates its context */
+  run_search: boolean;
+}
+
+export function sendRefineSearch(client: PipecatClient, message: RefineSearchMessage) {
+  console.log("📤 Sending refined filters to bot:", message);
+  client.sendClientMessage(CLIENT_MESSAGE_TYPES.refineSearch, message);
+}
+
+export interface RerunSearchMessage {
+  saved_search_id: string;
+  query: string;
+  filters_applied: FiltersApplied;
+}
+
+export function sendRerunSearch(client: PipecatClient, message: RerunSearchMessage) {
+  console.log("📤 Asking bot to re-run saved search:", message);
+  client.sendClientMessage(CLIENT_MESSAGE_TYPES.rerunSearch, message);
+}
+
+export interface UiActionResultMessage {
+  action_id: string;
+  action: string;
+  status: "ok" | "error";
+  /** What the dashboard now shows, e.g. the highlighted property or the matching count */
+  result?: Record<string, unknown>;
+  /** Machine-readable failure, see UiActionErrorReason */
+  reason?: string;
+  error?: string;
+}
+
+export function sendUiActionResult(client: PipecatClient, message: UiActionResultMessage) {
+  console.log("📤 Acknowledging UI action:", message);
+  client.sendClientMessage(CLIENT_MESSAGE_TYPES.uiActionResult, message);
+}
+
+export interface ResumeSessionFavorite {
+  property_id: string;
+  address: string;
+  price: number;
+}
+
+export interface ResumeSessionMessage {
+  /** Recent turns of the previous call, oldest first, one "User:" / "Assistant:" line each */
+  transcript_summary: string;
+  search_id: string | null;
+  last_query: string | null;
+  /** The filters on screen, including refinements made since the bot's results */
+  filters_applied: FiltersApplied | null;
+  favorites: ResumeSessionFavorite[];
+}
+
+export function sendResumeSession(client: PipecatClient, message: ResumeSessionMessage) {
+  console.log("📤 Restoring bot context after reconnect:", message);
+  client.sendClientMessage(CLIENT_MESSAGE_TYPES.resumeSession, message);
+}
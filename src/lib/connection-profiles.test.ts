@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildConnectRequest,
+  DEFAULT_CONNECTION_PROFILE,
+  parseRequestData,
+  validateEndpoint,
+} from "@/lib/connection-profiles";
+
+describe("validateEndpoint", () => {
+  it("accepts http(s) URLs and same-origin paths", () => {
+    expect(validateEndpoint("https://bot.example.com/connect")).toBeNull();
+    expect(validateEndpoint("  http://localhost:7860/connect  ")).toBeNull();
+    expect(validateEndpoint("/api/connect")).toBeNull();
+  });
+
+  it("needs an endpoint", () => {
+    expect(validateEndpoint("   ")).toBe("settings.error.endpointRequired");
+  });
+
+  it("catches a doubled scheme", () => {
+    expect(validateEndpoint("https://https://bot.example.com")).toBe("settings.error.endpointDoubleScheme");
+    expect(validateEndpoint("HTTP://http:bot.example.com")).toBe("settings.error.endpointDoubleScheme");
+  });
+
+  it("rejects other protocols", () => {
+    expect(validateEndpoint("ws://bot.example.com/connect")).toBe("settings.error.endpointProtocol");
+    expect(validateEndpoint("javascript:alert(1)")).toBe("settings.error.endpointProtocol");
+  });
+
+  it("rejects a missing scheme and protocol-relative paths", () => {
+    expect(validateEndpoint("bot.example.com/connect")).toBe("settings.error.endpointInvalid");
+    expect(validateEndpoint("//bot.example.com/connect")).toBe("settings.error.endpointInvalid");
+  });
+});
+
+describe("parseRequestData", () => {
+  it("reads a JSON object, or nothing as an empty one", () => {
+    expect(parseRequestData('{"room": "demo"}')).toEqual({ value: { room: "demo" } });
+    expect(parseRequestData("  ")).toEqual({ value: {} });
+  });
+
+  it("rejects invalid JSON and anything but an object", () => {
+    expect(parseRequestData("{room: demo}")).toEqual({ error: "settings.error.requestDataJson" });
+    expect(parseRequestData("[1, 2]")).toEqual({ error: "settings.error.requestDataObject" });
+    expect(parseRequestData("null")).toEqual({ error: "settings.error.requestDataObject" });
+  });
+});
+
+describe("buildConnectRequest", () => {
+  it("sends the chosen services and the language with the extra data", () => {
+    const profile = {
+      ...DEFAULT_CONNECTION_PROFILE,
+      endpoint: " https://bot.example.com/connect ",
+      services: { llm: "openai", tts: "cartesia", stt: "" },
+      request_data: { room: "demo" },
+    };
+
+    expect(buildConnectRequest(profile, "es")).toEqual({
+      endpoint: "https://bot.example.com/connect",
+      requestData: { room: "demo", services: { llm: "openai", tts: "cartesia" }, language: "es" },
+    });
+  });
+});
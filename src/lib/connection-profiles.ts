@@ -0,0 +1,106 @@
+import { z } from "zod";
+import type { APIRequest } from "@pipecat-ai/client-js";
+import type { MessageKey } from "@/lib/i18n";
+
+export const CONNECTION_SETTINGS_STORAGE_KEY = "dwelling-scribe:connection-profiles";
+
+// Service names the bot's /connect endpoint understands; "" leaves the choice to the bot
+export const LLM_OPTIONS = ["openai", "anthropic", "google", "groq"];
+export const TTS_OPTIONS = ["cartesia", "elevenlabs", "deepgram", "openai"];
+export const STT_OPTIONS = ["deepgram", "assemblyai", "whisper"];
+
+export const connectionProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** The bot's /connect URL, absolute or a same-origin path such as "/api/connect" */
+  endpoint: z.string(),
+  services: z.object({
+    llm: z.string().default(""),
+    tts: z.string().default(""),
+    stt: z.string().default(""),
+  }),
+  /** Merged into the connect request body next to `services` and `language` */
+  request_data: z.record(z.unknown()).default({}),
+});
+
+export type ConnectionProfile = z.infer<typeof connectionProfileSchema>;
+
+export const connectionSettingsSchema = z.object({
+  profiles: z.array(connectionProfileSchema).min(1),
+  active_profile_id: z.string(),
+});
+
+export type ConnectionSettings = z.infer<typeof connectionSettingsSchema>;
+
+export const DEFAULT_PROFILE_ID = "default";
+
+export const DEFAULT_CONNECTION_PROFILE: ConnectionProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: "Default",
+  endpoint: import.meta.env.VITE_PIPECAT_API_URL || "https://manjujayamurali--secondbrain-fastapi-app.modal.run/connect",
+  services: { llm: "openai", tts: "cartesia", stt: "" },
+  request_data: {},
+};
+
+export const DEFAULT_CONNECTION_SETTINGS: ConnectionSettings = {
+  profiles: [DEFAULT_CONNECTION_PROFILE],
+  active_profile_id: DEFAULT_PROFILE_ID,
+};
+
+export function createConnectionProfile(base: ConnectionProfile, name: string): ConnectionProfile {
+  return {
+    ...base,
+    id: `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    services: { ...base.services },
+    request_data: { ...base.request_data },
+  };
+}
+
+export function getActiveProfile(settings: ConnectionSettings): ConnectionProfile {
+  return settings.profiles.find((profile) => profile.id === settings.active_profile_id) ?? settings.profiles[0];
+}
+
+/**
+ * Accepts http(s) URLs and same-origin paths. Catches the usual paste
+ * mistakes, like a doubled "https://https://" or a missing scheme.
+ */
+export function validateEndpoint(endpoint: string): MessageKey | null {
+  const value = endpoint.trim();
+  if (!value) return "settings.error.endpointRequired";
+  if (value.startsWith("/")) return value.startsWith("//") ? "settings.error.endpointInvalid" : null;
+  if (/^https?:\/\/https?:/i.test(value)) return "settings.error.endpointDoubleScheme";
+
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return "settings.error.endpointProtocol";
+    return url.hostname ? null : "settings.error.endpointInvalid";
+  } catch {
+    return "settings.error.endpointInvalid";
+  }
+}
+
+/** Parses the extra request data editor; it must hold a JSON object. */
+export function parseRequestData(text: string): { value: Record<string, unknown> } | { error: MessageKey } {
+  if (!text.trim()) return { value: {} };
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return { error: "settings.error.requestDataObject" };
+    return { value: parsed as Record<string, unknown> };
+  } catch {
+    return { error: "settings.error.requestDataJson" };
+  }
+}
+
+/** The body both connect buttons POST to the profile's endpoint. */
+export function buildConnectRequest(profile: ConnectionProfile, language: string): APIRequest {
+  const services = Object.fromEntries(Object.entries(profile.services).filter(([, name]) => name));
+  return {
+    endpoint: profile.endpoint.trim(),
+    requestData: {
+      ...profile.request_data,
+      services,
+      language,
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { propertySchema, type Property } from "@/lib/server-messages";
+
+export const FAVORITES_STORAGE_KEY = "dwelling-scribe:favorites";
+
+export const favoriteSchema = z.object({
+  /** Full listing snapshot, so the shortlist survives new searches */
+  property: propertySchema,
+  saved_at: z.number(),
+  search_query: z.string().nullable().default(null),
+});
+
+export type Favorite = z.infer<typeof favoriteSchema>;
+
+export function createFavorite(property: Property, searchQuery: string | null = null): Favorite {
+  return { property, saved_at: Date.now(), search_query: searchQuery };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { createFormatters, DEFAULT_FORMAT_SETTINGS, type FormatSettings } from "@/lib/formatting";
+
+const formatters = (settings: Partial<FormatSettings> = {}) =>
+  createFormatters({ ...DEFAULT_FORMAT_SETTINGS, locale: "en-US", ...settings });
+
+describe("convert", () => {
+  it("converts through the per-USD rates", () => {
+    const { convert } = formatters();
+
+    expect(convert(100, "USD", "EUR")).toBeCloseTo(92);
+    expect(convert(92, "EUR", "GBP")).toBeCloseTo(79);
+    expect(convert(5, "JPY", "JPY")).toBe(5);
+  });
+
+  it("gives null without a rate", () => {
+    expect(formatters().convert(100, "USD", "XYZ")).toBeNull();
+  });
+});
+
+describe("formatPrice", () => {
+  it("shows the listing's own currency without a display currency", () => {
+    expect(formatters().formatPrice(450_000, "EUR")).toBe("€450,000");
+  });
+
+  it("converts into the display currency", () => {
+    expect(formatters({ display_currency: "EUR" }).formatPrice(450_000, "USD")).toBe("€414,000");
+  });
+
+  it("keeps the listing's currency when asked not to convert", () => {
+    expect(formatters({ display_currency: "EUR" }).formatPrice(450_000, "USD", { convert: false })).toBe("$450,000");
+  });
+
+  it("keeps the listing's currency without a rate", () => {
+    expect(formatters({ display_currency: "EUR" }).formatPrice(1_000, "CHF")).toMatch(/^CHF\s1,000$/);
+  });
+
+  it("abbreviates compact prices", () => {
+    expect(formatters().formatPrice(1_250_000, "USD", { compact: true })).toBe("$1.3M");
+  });
+
+  it("follows the locale", () => {
+    expect(formatters({ locale: "de-DE" }).formatPrice(450_000, "EUR")).toMatch(/^450\.000\s€$/);
+  });
+});
+
+describe("priceScale", () => {
+  it("uses the display currency when one is set", () => {
+    const scale = formatters({ display_currency: "GBP" }).priceScale(["USD", "EUR"]);
+
+    expect(scale.currency).toBe("GBP");
+    expect(scale.convert(100, "USD")).toBeCloseTo(79);
+  });
+
+  it("otherwise uses the first listing's currency", () => {
+    const scale = formatters().priceScale(["EUR", "USD"]);
+
+    expect(scale.currency).toBe("EUR");
+    expect(scale.convert(100, "USD")).toBeCloseTo(92);
+    expect(formatters().priceScale([]).currency).toBe("USD");
+  });
+});
@@ -0,0 +1,111 @@
+import { z } from "zod";
+
+export const FORMAT_SETTINGS_STORAGE_KEY = "dwelling-scribe:format-settings";
+
+/**
+ * Units of each currency per 1 USD. Rough reference values; users can edit
+ * them in the display settings when they need current rates.
+ */
+export const DEFAULT_CURRENCY_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  AUD: 1.52,
+  INR: 83.1,
+  JPY: 150,
+  MXN: 17.1,
+};
+
+export const LOCALE_OPTIONS = ["en-US", "en-GB", "en-IN", "de-DE", "fr-FR", "es-ES", "ja-JP"];
+
+export const formatSettingsSchema = z.object({
+  /** BCP 47 tag; null follows the browser */
+  locale: z.string().nullable().default(null),
+  /** Currency to convert prices into; null shows each listing's own currency */
+  display_currency: z.string().nullable().default(null),
+  rates: z.record(z.number().positive()).default(DEFAULT_CURRENCY_RATES),
+});
+
+export type FormatSettings = z.infer<typeof formatSettingsSchema>;
+
+export const DEFAULT_FORMAT_SETTINGS: FormatSettings = {
+  locale: null,
+  display_currency: null,
+  rates: DEFAULT_CURRENCY_RATES,
+};
+
+export interface PriceFormatOptions {
+  /** "1.2M" style, for charts and headers */
+  compact?: boolean;
+  /** Set to false to keep the listing's own currency even when a display currency is set */
+  convert?: boolean;
+}
+
+/** Prices of several listings brought into one currency, so they can be totalled or ranked together */
+export interface PriceScale {
+  currency: string;
+  /** null when a rate is missing */
+  convert: (amount: number, from: string) => number | null;
+}
+
+export interface Formatters {
+  locale: string | undefined;
+  /** Converts between currencies with the rate table; null when a rate is missing */
+  convert: (amount: number, from: string, to: string) => number | null;
+  /** The display currency when one is set, else the first of `currencies` */
+  priceScale: (currencies: string[]) => PriceScale;
+  formatPrice: (amount: number, currency: string, options?: PriceFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  /** 0–1 share as a percentage */
+  formatPercent: (share: number, maximumFractionDigits?: number) => string;
+  formatDate: (value: Date | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatTime: (value: Date | number) => string;
+}
+
+export function createFormatters(settings: FormatSettings): Formatters {
+  const locale = settings.locale ?? undefined;
+
+  const convert = (amount: number, from: string, to: string) => {
+    if (from === to) return amount;
+    const fromRate = settings.rates[from];
+    const toRate = settings.rates[to];
+    if (!fromRate || !toRate) return null;
+    return (amount / fromRate) * toRate;
+  };
+
+  const priceScale = (currencies: string[]): PriceScale => {
+    const currency = settings.display_currency ?? currencies[0] ?? "USD";
+    return { currency, convert: (amount, from) => convert(amount, from, currency) };
+  };
+
+  const formatPrice = (amount: number, currency: string, { compact = false, convert: shouldConvert = true }: PriceFormatOptions = {}) => {
+    let value = amount;
+    let displayCurrency = currency;
+    if (shouldConvert && settings.display_currency && settings.display_currency !== currency) {
+      const converted = convert(amount, currency, settings.display_currency);
+      // Without a rate, show the listing's own currency rather than a wrong number
+      if (converted !== null) {
+        value = converted;
+        displayCurrency = settings.display_currency;
+      }
+    }
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: displayCurrency,
+      ...(compact ? { notation: "compact", maximumFractionDigits: 1 } : { maximumFractionDigits: 0 }),
+    }).format(value);
+  };
+
+  return {
+    locale,
+    convert,
+    priceScale,
+    formatPrice,
+    formatNumber: (value, options) => new Intl.NumberFormat(locale, options).format(value),
+    formatPercent: (share, maximumFractionDigits = 0) =>
+      new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits }).format(share),
+    formatDate: (value, options = { dateStyle: "medium" }) => new Intl.DateTimeFormat(locale, options).format(value),
+    formatTime: (value) => new Intl.DateTimeFormat(locale, { hour: "2-digit", minute: "2-digit" }).format(value),
+  };
+}
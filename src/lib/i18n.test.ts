@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from "vitest";
+import { translate, type MessageKey } from "@/lib/i18n";
+
+describe("translate", () => {
+  it("picks the plural form for the count", () => {
+    expect(translate("en", "saved.propertyCount", { count: 1 })).toBe("1 property");
+    expect(translate("en", "saved.propertyCount", { count: 3 })).toBe("3 properties");
+    expect(translate("en", "saved.propertyCount", { count: 0 })).toBe("0 properties");
+  });
+
+  it("follows each language's plural rules", () => {
+    expect(translate("es", "property.beds", { count: 1 })).toBe("1 dormitorio");
+    expect(translate("es", "property.beds", { count: 2 })).toBe("2 dormitorios");
+  });
+
+  it("picks the form for zero without a count, leaving the placeholder", () => {
+    expect(translate("en", "saved.propertyCount")).toBe("{count} properties");
+  });
+
+  it("fills placeholders and leaves unknown ones as they are", () => {
+    expect(translate("en", "property.beds", { count: 3 })).toBe("3 bed");
+    expect(translate("en", "property.beds")).toBe("{count} bed");
+  });
+
+  it("falls back to the key for a message no catalog has", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(translate("es", "no.such.key" as MessageKey)).toBe("no.such.key");
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,64 @@
+import { z } from "zod";
+import type { Locale } from "date-fns";
+import { enUS, es as esDateLocale } from "date-fns/locale";
+import { en } from "@/locales/en";
+import { es } from "@/locales/es";
+
+/** A plain message, or one form per `Intl.PluralRules` category selected by `count`. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export const LANGUAGE_STORAGE_KEY = "dwelling-scribe:language";
+
+export const LANGUAGES = {
+  en: "English",
+  es: "Español",
+} as const;
+
+export type Language = keyof typeof LANGUAGES;
+
+/** For date-fns relative dates ("3 days ago") */
+export const DATE_LOCALES: Record<Language, Locale> = {
+  en: enUS,
+  es: esDateLocale,
+};
+
+// Catalogs may lag behind English; missing keys fall back to it
+const catalogs: Record<Language, Partial<Catalog>> = { en, es };
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+}
+
+export const languageSchema = z.custom<Language>(isLanguage);
+
+export function detectLanguage(): Language {
+  const browser = typeof navigator !== "undefined" ? navigator.language.split("-")[0] : "en";
+  return isLanguage(browser) ? browser : "en";
+}
+
+function interpolate(template: string, params: MessageParams) {
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * Looks up `key` in the language's catalog. Plural messages pick their form
+ * from `params.count`; `{name}` placeholders are filled from `params`.
+ */
+export function translate(language: Language, key: MessageKey, params: MessageParams = {}): string {
+  const message: Message | undefined = catalogs[language][key] ?? en[key];
+  if (message === undefined) {
+    console.warn(`⚠️ Missing translation for "${key}"`);
+    return key;
+  }
+  if (typeof message === "string") return interpolate(message, params);
+
+  const count = Number(params.count ?? 0);
+  const category = new Intl.PluralRules(language).select(count);
+  const form = (count === 0 && message.zero) || message[category] || message.other;
+  return interpolate(form, params);
+}
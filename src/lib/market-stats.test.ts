@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { createFormatters, DEFAULT_FORMAT_SETTINGS } from "@/lib/formatting";
+import { applyMarketStatsOverride, computeMarketStats, median } from "@/lib/market-stats";
+import { makeProperty } from "@/test/fixtures";
+
+const { priceScale } = createFormatters(DEFAULT_FORMAT_SETTINGS);
+const usd = priceScale(["USD"]);
+
+const properties = [
+  makeProperty({ id: "a", details: { price: 300_000 }, metadata: { search_score: 0.9 } }),
+  makeProperty({ id: "b", details: { price: 500_000 }, metadata: { status: "pending", mls_genuine: false } }),
+  makeProperty({ id: "c", details: { price: 400_000 }, metadata: { search_score: 0.5 } }),
+];
+
+describe("median", () => {
+  it("takes the middle value, or the mean of the middle two", () => {
+    expect(median([1, 2, 9])).toBe(2);
+    expect(median([1, 2, 4, 9])).toBe(3);
+    expect(median([])).toBeNull();
+  });
+});
+
+describe("computeMarketStats", () => {
+  it("summarizes prices, statuses, MLS and scores", () => {
+    expect(computeMarketStats(properties, usd)).toEqual({
+      currency: "USD",
+      total_listings: 3,
+      median_price: 400_000,
+      mean_price: 400_000,
+      min_price: 300_000,
+      max_price: 500_000,
+      active_count: 2,
+      other_status_count: 1,
+      mls_verified_share: 2 / 3,
+      high_score_count: 2,
+      price_change_percent: null,
+      from_server: false,
+    });
+  });
+
+  it("has no figures without listings", () => {
+    expect(computeMarketStats([], usd)).toMatchObject({
+      total_listings: 0,
+      median_price: null,
+      mean_price: null,
+      min_price: null,
+      mls_verified_share: null,
+    });
+  });
+
+  it("converts every price into the scale's currency", () => {
+    const mixed = [
+      makeProperty({ details: { price: 460_000, currency: "EUR" } }),
+      makeProperty({ details: { price: 400_000 } }),
+    ];
+
+    expect(computeMarketStats(mixed, usd)).toMatchObject({ currency: "USD", min_price: 400_000, max_price: 500_000 });
+  });
+
+  it("leaves prices without a rate out of the price figures only", () => {
+    const mixed = [
+      makeProperty({ details: { price: 1_000, currency: "XYZ" } }),
+      makeProperty({ details: { price: 400_000 } }),
+    ];
+
+    expect(computeMarketStats(mixed, usd)).toMatchObject({ total_listings: 2, min_price: 400_000, max_price: 400_000 });
+  });
+});
+
+describe("applyMarketStatsOverride", () => {
+  const stats = computeMarketStats(properties, usd);
+
+  it("layers the backend's figures over the computed ones", () => {
+    const override = {
+      type: "market_stats" as const,
+      search_id: "search-1",
+      median_price: 420_000,
+      price_change_percent: 2.3,
+    };
+
+    expect(applyMarketStatsOverride(stats, override, "search-1")).toEqual({
+      ...stats,
+      median_price: 420_000,
+      price_change_percent: 2.3,
+      from_server: true,
+    });
+  });
+
+  it("ignores figures for another search", () => {
+    const override = { type: "market_stats" as const, search_id: "search-0", median_price: 1 };
+
+    expect(applyMarketStatsOverride(stats, override, "search-1")).toBe(stats);
+  });
+
+  it("applies figures without a search id to any search", () => {
+    const override = { type: "market_stats" as const, total_listings: 120 };
+
+    expect(applyMarketStatsOverride(stats, override, "search-1").total_listings).toBe(120);
+  });
+});
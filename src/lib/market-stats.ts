@@ -0,0 +1,72 @@
+import type { PriceScale } from "@/lib/formatting";
+import type { MarketStatsMessage, Property } from "@/lib/server-messages";
+
+/** Listings scoring at or above this are counted as high-score matches */
+export const HIGH_SCORE_THRESHOLD = 0.8;
+
+export interface MarketStats {
+  currency: string;
+  total_listings: number;
+  median_price: number | null;
+  mean_price: number | null;
+  min_price: number | null;
+  max_price: number | null;
+  active_count: number;
+  other_status_count: number;
+  /** 0–1, null when there are no listings */
+  mls_verified_share: number | null;
+  high_score_count: number;
+  /** Only known when the backend sends market data */
+  price_change_percent: number | null;
+  /** true when any figure came from a `market_stats` message */
+  from_server: boolean;
+}
+
+export function median(sorted: number[]): number | null {
+  if (sorted.length === 0) return null;
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/** Prices are totalled in `scale`'s currency; listings without a rate for theirs are left out of the price figures */
+export function computeMarketStats(properties: Property[], scale: PriceScale): MarketStats {
+  const prices = properties
+    .map((property) => scale.convert(property.details.price, property.details.currency))
+    .filter((price): price is number => price !== null)
+    .sort((a, b) => a - b);
+  const activeCount = properties.filter((property) => property.metadata.status === "active").length;
+  const mlsCount = properties.filter((property) => property.metadata.mls_genuine).length;
+
+  return {
+    currency: scale.currency,
+    total_listings: properties.length,
+    median_price: median(prices),
+    mean_price: prices.length ? prices.reduce((sum, price) => sum + price, 0) / prices.length : null,
+    min_price: prices.length ? prices[0] : null,
+    max_price: prices.length ? prices[prices.length - 1] : null,
+    active_count: activeCount,
+    other_status_count: properties.length - activeCount,
+    mls_verified_share: properties.length ? mlsCount / properties.length : null,
+    high_score_count: properties.filter((property) => property.metadata.search_score >= HIGH_SCORE_THRESHOLD).length,
+    price_change_percent: null,
+    from_server: false,
+  };
+}
+
+/**
+ * Layers backend figures over the computed ones. Overrides tied to a different
+ * search than the one on screen are ignored.
+ */
+export function applyMarketStatsOverride(
+  stats: MarketStats,
+  override: MarketStatsMessage | null,
+  searchId: string | null
+): MarketStats {
+  if (!override) return stats;
+  if (override.search_id && override.search_id !== searchId) return stats;
+
+  const defined = Object.fromEntries(
+    Object.entries(override).filter(([key, value]) => key !== "type" && key !== "search_id" && value !== undefined)
+  );
+  return { ...stats, ...defined, from_server: Object.keys(defined).length > 0 };
+}
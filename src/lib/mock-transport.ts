@@ -0,0 +1,203 @@
+import {
+  Transport,
+  RTVIMessage,
+  RTVIMessageType,
+  type PipecatClientOptions,
+  type TransportState,
+  type Tracks,
+} from "@pipecat-ai/client-js";
+
+/** One scripted RTVI message, sent `delay_ms` after the previous step. */
+export interface MockScriptStep {
+  delay_ms: number;
+  type: `${RTVIMessageType}`;
+  data?: unknown;
+}
+
+export interface MockScenario {
+  name: string;
+  /** Played as soon as the bot is "ready" */
+  intro: MockScriptStep[];
+  /** Played when typed user text matches `match` (case-insensitive regex) */
+  responses: Array<{ match: string; steps: MockScriptStep[] }>;
+  /** Played when no response matches */
+  fallback: MockScriptStep[];
+  /** Played when the app sends a client message with this `t` */
+  client_messages?: Record<string, MockScriptStep[]>;
+}
+
+const MOCK_MIC = { deviceId: "mock-mic", groupId: "mock", kind: "audioinput", label: "Mock Microphone" } as MediaDeviceInfo;
+const MOCK_SPEAKER = { deviceId: "mock-speaker", groupId: "mock", kind: "audiooutput", label: "Mock Speaker" } as MediaDeviceInfo;
+
+/**
+ * Offline stand-in for DailyTransport. Never touches the network or real
+ * media devices; instead it plays a scripted bot conversation from a fixture.
+ */
+export class MockTransport extends Transport {
+  private _scenario: MockScenario;
+  private _timers: ReturnType<typeof setTimeout>[] = [];
+  private _micEnabled = true;
+
+  constructor(scenario: MockScenario) {
+    super();
+    this._scenario = scenario;
+  }
+
+  initialize(options: PipecatClientOptions, messageHandler: (ev: RTVIMessage) => void): void {
+    this._options = options;
+    this._callbacks = options.callbacks ?? {};
+    this._onMessage = messageHandler;
+    this._micEnabled = options.enableMic ?? true;
+    this.state = "disconnected";
+  }
+
+  async initDevices(): Promise<void> {
+    this.state = "initializing";
+    this._callbacks.onAvailableMicsUpdated?.([MOCK_MIC]);
+    this._callbacks.onAvailableSpeakersUpdated?.([MOCK_SPEAKER]);
+    this._callbacks.onMicUpdated?.(MOCK_MIC);
+    this._callbacks.onSpeakerUpdated?.(MOCK_SPEAKER);
+    this.state = "initialized";
+  }
+
+  _validateConnectionParams(connectParams?: unknown): unknown {
+    return connectParams;
+  }
+
+  async _connect(): Promise<void> {
+    this.state = "connecting";
+    await this._wait(300);
+    this.state = "connected";
+    this._callbacks.onConnected?.();
+  }
+
+  async _disconnect(): Promise<void> {
+    this.state = "disconnecting";
+    this._clearTimers();
+    this.state = "disconnected";
+    this._callbacks.onDisconnected?.();
+  }
+
+  sendReadyMessage(): void {
+    this.state = "ready";
+    this._emit(RTVIMessageType.BOT_READY, { version: "2.1.0", about: { library: "mock-transport" } });
+    this._play(this._scenario.intro);
+  }
+
+  sendMessage(message: RTVIMessage): void {
+    if (message.type === RTVIMessageType.CLIENT_MESSAGE) {
+      const { t } = message.data as { t: string };
+      const steps = this._scenario.client_messages?.[t];
+      if (steps) this._play(steps);
+      return;
+    }
+
+    const text = this._userTextFrom(message);
+    if (!text) return;
+
+    const response = this._scenario.responses.find(({ match }) => new RegExp(match, "i").test(text));
+    this._play(response ? response.steps : this._scenario.fallback);
+  }
+
+  get state(): TransportState {
+    return this._state;
+  }
+
+  set state(state: TransportState) {
+    if (this._state === state) return;
+    this._state = state;
+    this._callbacks.onTransportStateChanged?.(state);
+  }
+
+  async getAllMics(): Promise<MediaDeviceInfo[]> {
+    return [MOCK_MIC];
+  }
+
+  async getAllCams(): Promise<MediaDeviceInfo[]> {
+    return [];
+  }
+
+  async getAllSpeakers(): Promise<MediaDeviceInfo[]> {
+    return [MOCK_SPEAKER];
+  }
+
+  updateMic(): void {}
+  updateCam(): void {}
+  updateSpeaker(): void {}
+
+  get selectedMic(): MediaDeviceInfo {
+    return MOCK_MIC;
+  }
+
+  get selectedCam(): Record<string, never> {
+    return {};
+  }
+
+  get selectedSpeaker(): MediaDeviceInfo {
+    return MOCK_SPEAKER;
+  }
+
+  enableMic(enable: boolean): void {
+    this._micEnabled = enable;
+  }
+
+  enableCam(): void {}
+  enableScreenShare(): void {}
+
+  get isMicEnabled(): boolean {
+    return this._micEnabled;
+  }
+
+  get isCamEnabled(): boolean {
+    return false;
+  }
+
+  get isSharingScreen(): boolean {
+    return false;
+  }
+
+  tracks(): Tracks {
+    return { local: {} };
+  }
+
+  private _userTextFrom(message: RTVIMessage): string | null {
+    const data = message.data as { content?: unknown; role?: string } | undefined;
+    if (message.type === RTVIMessageType.SEND_TEXT && typeof data?.content === "string") {
+      return data.content;
+    }
+    if (message.type === RTVIMessageType.APPEND_TO_CONTEXT && data?.role === "user" && typeof data.content === "string") {
+      return data.content;
+    }
+    return null;
+  }
+
+  private _play(steps: MockScriptStep[]) {
+    let elapsed = 0;
+    for (const step of steps) {
+      elapsed += step.delay_ms;
+      this._timers.push(setTimeout(() => this._emit(step.type, this._withTimestamp(step)), elapsed));
+    }
+  }
+
+  // Transcripts carry the time they were "spoken", not the time the fixture was written
+  private _withTimestamp(step: MockScriptStep) {
+    if (step.type === RTVIMessageType.USER_TRANSCRIPTION) {
+      return { user_id: "mock-user", final: true, ...(step.data as object), timestamp: new Date().toISOString() };
+    }
+    return step.data;
+  }
+
+  private _emit(type: string, data: unknown) {
+    if (this._state !== "ready" && type !== RTVIMessageType.BOT_READY) return;
+    this._onMessage(new RTVIMessage(type, data ?? {}));
+  }
+
+  private _wait(ms: number) {
+    return new Promise<void>((resolve) => this._timers.push(setTimeout(resolve, ms)));
+  }
+
+  private _clearTimers() {
+    this._timers.forEach(clearTimeout);
+    this._timers = [];
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  amortizationSchedule,
+  calculateMortgage,
+  defaultMortgageInputs,
+  monthlyPayment,
+  type MortgageInputs,
+} from "@/lib/mortgage";
+
+const inputs: MortgageInputs = {
+  price: 500_000,
+  down_payment: 100_000,
+  annual_rate: 6,
+  term_years: 30,
+  annual_taxes: 6_000,
+  annual_insurance: 1_200,
+};
+
+describe("monthlyPayment", () => {
+  it("matches the standard fixed-rate formula", () => {
+    expect(monthlyPayment(400_000, 6, 30)).toBeCloseTo(2398.2, 1);
+  });
+
+  it("spreads the principal evenly at 0%", () => {
+    expect(monthlyPayment(120_000, 0, 10)).toBe(1_000);
+  });
+
+  it("charges at least one month", () => {
+    expect(monthlyPayment(1_000, 0, 0)).toBe(1_000);
+  });
+});
+
+describe("calculateMortgage", () => {
+  it("adds taxes and insurance to principal and interest", () => {
+    const breakdown = calculateMortgage(inputs);
+
+    expect(breakdown.loan_amount).toBe(400_000);
+    expect(breakdown.monthly_taxes).toBe(500);
+    expect(breakdown.monthly_insurance).toBe(100);
+    expect(breakdown.monthly_total).toBeCloseTo(breakdown.monthly_principal_interest + 600, 6);
+    expect(breakdown.total_interest).toBeCloseTo(breakdown.monthly_principal_interest * 360 - 400_000, 6);
+  });
+
+  it("never lends a negative amount", () => {
+    const breakdown = calculateMortgage({ ...inputs, down_payment: 600_000 });
+
+    expect(breakdown.loan_amount).toBe(0);
+    expect(breakdown.monthly_principal_interest).toBe(0);
+  });
+});
+
+describe("amortizationSchedule", () => {
+  it("has one row per year and pays the loan off", () => {
+    const schedule = amortizationSchedule(inputs);
+
+    expect(schedule).toHaveLength(30);
+    expect(schedule.map((row) => row.year)).toEqual(Array.from({ length: 30 }, (_, index) => index + 1));
+    expect(schedule.reduce((sum, row) => sum + row.principal, 0)).toBeCloseTo(400_000, 2);
+    expect(schedule[schedule.length - 1].balance).toBeCloseTo(0, 2);
+  });
+
+  it("shifts payments from interest to principal over time", () => {
+    const schedule = amortizationSchedule(inputs);
+
+    expect(schedule[0].interest).toBeGreaterThan(schedule[0].principal);
+    expect(schedule[29].principal).toBeGreaterThan(schedule[29].interest);
+  });
+});
+
+describe("defaultMortgageInputs", () => {
+  it("derives the down payment and taxes from the price", () => {
+    expect(defaultMortgageInputs(500_000)).toMatchObject({
+      price: 500_000,
+      down_payment: 100_000,
+      annual_taxes: 5_500,
+      term_years: 30,
+    });
+  });
+});
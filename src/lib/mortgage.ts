@@ -0,0 +1,94 @@
+export interface MortgageInputs {
+  price: number;
+  down_payment: number;
+  /** Annual interest rate in percent, e.g. 6.5 */
+  annual_rate: number;
+  term_years: number;
+  annual_taxes: number;
+  annual_insurance: number;
+}
+
+export interface MortgageBreakdown {
+  loan_amount: number;
+  monthly_principal_interest: number;
+  monthly_taxes: number;
+  monthly_insurance: number;
+  monthly_total: number;
+  total_interest: number;
+}
+
+export interface AmortizationYear {
+  year: number;
+  principal: number;
+  interest: number;
+  /** Loan balance left at the end of the year */
+  balance: number;
+}
+
+// Typical US assumptions, used until the buyer enters their own
+export const DEFAULT_DOWN_PAYMENT_PERCENT = 20;
+export const DEFAULT_ANNUAL_RATE = 6.5;
+export const DEFAULT_TERM_YEARS = 30;
+export const DEFAULT_TAX_RATE_PERCENT = 1.1;
+export const DEFAULT_ANNUAL_INSURANCE = 1500;
+
+export function defaultMortgageInputs(price: number): MortgageInputs {
+  return {
+    price,
+    down_payment: Math.round((price * DEFAULT_DOWN_PAYMENT_PERCENT) / 100),
+    annual_rate: DEFAULT_ANNUAL_RATE,
+    term_years: DEFAULT_TERM_YEARS,
+    annual_taxes: Math.round((price * DEFAULT_TAX_RATE_PERCENT) / 100),
+    annual_insurance: DEFAULT_ANNUAL_INSURANCE,
+  };
+}
+
+function loanAmount(inputs: MortgageInputs) {
+  return Math.max(0, inputs.price - inputs.down_payment);
+}
+
+/** Standard fixed-rate payment; a 0% rate simply spreads the principal. */
+export function monthlyPayment(principal: number, annualRate: number, termYears: number): number {
+  const months = Math.max(1, Math.round(termYears * 12));
+  const monthlyRate = annualRate / 100 / 12;
+  if (monthlyRate === 0) return principal / months;
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+export function calculateMortgage(inputs: MortgageInputs): MortgageBreakdown {
+  const loan = loanAmount(inputs);
+  const principalInterest = monthlyPayment(loan, inputs.annual_rate, inputs.term_years);
+  const months = Math.max(1, Math.round(inputs.term_years * 12));
+  const monthlyTaxes = inputs.annual_taxes / 12;
+  const monthlyInsurance = inputs.annual_insurance / 12;
+
+  return {
+    loan_amount: loan,
+    monthly_principal_interest: principalInterest,
+    monthly_taxes: monthlyTaxes,
+    monthly_insurance: monthlyInsurance,
+    monthly_total: principalInterest + monthlyTaxes + monthlyInsurance,
+    total_interest: principalInterest * months - loan,
+  };
+}
+
+export function amortizationSchedule(inputs: MortgageInputs): AmortizationYear[] {
+  const months = Math.max(1, Math.round(inputs.term_years * 12));
+  const monthlyRate = inputs.annual_rate / 100 / 12;
+  const payment = monthlyPayment(loanAmount(inputs), inputs.annual_rate, inputs.term_years);
+
+  let balance = loanAmount(inputs);
+  const years: AmortizationYear[] = [];
+  for (let month = 1; month <= months; month++) {
+    const interest = balance * monthlyRate;
+    const principal = Math.min(balance, payment - interest);
+    balance -= principal;
+
+    const year = Math.ceil(month / 12);
+    if (!years[year - 1]) years[year - 1] = { year, principal: 0, interest: 0, balance: 0 };
+    years[year - 1].principal += principal;
+    years[year - 1].interest += interest;
+    years[year - 1].balance = Math.max(0, balance);
+  }
+  return years;
+}
@@ -0,0 +1,49 @@
+import type { APIRequest, PipecatClient, Transport } from "@pipecat-ai/client-js";
+import { DailyTransport } from "@pipecat-ai/daily-transport";
+import { MockTransport, type MockScenario } from "./mock-transport";
+
+export type TransportMode = "daily" | "mock";
+
+const DEFAULT_SCENARIO = "family-homes";
+
+const scenarios = import.meta.glob<MockScenario>("../fixtures/mock-sessions/*.json", {
+  eager: true,
+  import: "default",
+});
+
+// `?transport=mock` wins over VITE_PIPECAT_TRANSPORT so a single tab can opt in
+function resolveTransportMode(): TransportMode {
+  const mode = new URLSearchParams(window.location.search).get("transport") ?? import.meta.env.VITE_PIPECAT_TRANSPORT;
+  return mode === "mock" ? "mock" : "daily";
+}
+
+function resolveScenario(): MockScenario {
+  const name = new URLSearchParams(window.location.search).get("scenario") ?? DEFAULT_SCENARIO;
+  const scenario = scenarios[`../fixtures/mock-sessions/${name}.json`];
+  if (!scenario) {
+    console.warn(`⚠️ Unknown mock scenario "${name}", falling back to "${DEFAULT_SCENARIO}"`);
+    return scenarios[`../fixtures/mock-sessions/${DEFAULT_SCENARIO}.json`];
+  }
+  return scenario;
+}
+
+export const transportMode = resolveTransportMode();
+export const isMockTransport = transportMode === "mock";
+
+export function createTransport(): Transport {
+  if (isMockTransport) {
+    const scenario = resolveScenario();
+    console.log(`🧪 Using mock transport with scenario "${scenario.name}"`);
+    return new MockTransport(scenario);
+  }
+  return new DailyTransport();
+}
+
+/**
+ * Starts the bot and joins the call. The mock transport has no bot to start,
+ * so it connects straight away instead of POSTing to the `/connect` endpoint.
+ * Resolves once the bot is ready.
+ */
+export function startSession(client: PipecatClient, request: APIRequest): Promise<unknown> {
+  return isMockTransport ? client.connect() : client.startBotAndConnect(request);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { createFormatters, DEFAULT_FORMAT_SETTINGS } from "@/lib/formatting";
+import {
+  bedroomsByMedianPrice,
+  countsByType,
+  matchesBucket,
+  priceHistogram,
+  scoreDistribution,
+} from "@/lib/property-analytics";
+import { makeProperty } from "@/test/fixtures";
+
+const { priceScale } = createFormatters(DEFAULT_FORMAT_SETTINGS);
+const usd = priceScale(["USD"]);
+const label = (price: number) => `${price / 1_000}k`;
+
+const properties = [
+  makeProperty({ id: "a", details: { price: 100_000, bedrooms: "2", type: "Condo" }, metadata: { search_score: 0.1 } }),
+  makeProperty({ id: "b", details: { price: 250_000, bedrooms: "3", type: "House" }, metadata: { search_score: 0.5 } }),
+  makeProperty({ id: "c", details: { price: 400_000, bedrooms: "3", type: "House" }, metadata: { search_score: 1 } }),
+];
+
+describe("priceHistogram", () => {
+  it("splits the price range into even buckets, the last one including its max", () => {
+    const buckets = priceHistogram(properties, usd, label);
+
+    expect(buckets).toHaveLength(6);
+    expect(buckets[0]).toMatchObject({ label: "100k–150k", min: 100_000, max: 150_000, count: 1 });
+    expect(buckets[5]).toMatchObject({ min: 350_000, max: 400_000, inclusiveMax: true, count: 1 });
+    expect(buckets.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(3);
+  });
+
+  it("uses one bucket when every price is the same", () => {
+    expect(priceHistogram([properties[0]], usd, label)).toMatchObject([{ min: 100_000, max: 100_000, count: 1 }]);
+  });
+
+  it("has no buckets without prices", () => {
+    expect(priceHistogram([], usd, label)).toEqual([]);
+  });
+
+  it("buckets converted prices", () => {
+    const euros = makeProperty({ id: "e", details: { price: 368_000, currency: "EUR" } });
+    const [bucket] = priceHistogram([euros], usd, label);
+
+    expect(bucket.min).toBeCloseTo(400_000);
+    expect(matchesBucket(euros, bucket, usd)).toBe(true);
+  });
+});
+
+describe("bedroomsByMedianPrice", () => {
+  it("groups by bedrooms with each group's median price", () => {
+    expect(bedroomsByMedianPrice(properties, usd)).toMatchObject([
+      { key: "bedrooms-2", value: "2", count: 1, median_price: 100_000 },
+      { key: "bedrooms-3", value: "3", count: 2, median_price: 325_000 },
+    ]);
+  });
+});
+
+describe("countsByType", () => {
+  it("counts each type, most common first", () => {
+    expect(countsByType(properties)).toMatchObject([
+      { value: "House", count: 2 },
+      { value: "Condo", count: 1 },
+    ]);
+  });
+});
+
+describe("scoreDistribution", () => {
+  it("counts scores in fixed 20% bands", () => {
+    expect(scoreDistribution(properties).map((bucket) => [bucket.label, bucket.count])).toEqual([
+      ["0–20%", 1],
+      ["20–40%", 0],
+      ["40–60%", 1],
+      ["60–80%", 0],
+      ["80–100%", 1],
+    ]);
+  });
+});
+
+describe("matchesBucket", () => {
+  it("matches each chart's buckets on their own field", () => {
+    const [house] = countsByType(properties);
+    const [twoBeds] = bedroomsByMedianPrice(properties, usd);
+    const topScores = scoreDistribution(properties)[4];
+    const houses = properties.filter((property) => matchesBucket(property, house, usd));
+
+    expect(houses.map((property) => property.id)).toEqual(["b", "c"]);
+    expect(matchesBucket(properties[0], twoBeds, usd)).toBe(true);
+    expect(matchesBucket(properties[2], topScores, usd)).toBe(true);
+  });
+});
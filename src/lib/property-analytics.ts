@@ -0,0 +1,132 @@
+import type { PriceScale } from "@/lib/formatting";
+import type { Property } from "@/lib/server-messages";
+import { parseCount } from "@/lib/property-filters";
+import { median } from "@/lib/market-stats";
+
+export type AnalyticsChart = "price" | "bedrooms" | "type" | "score";
+
+/**
+ * One bar in an analytics chart. Numeric buckets cover [min, max); the last
+ * bucket of a histogram also includes its max. Prices are in the chart's
+ * `PriceScale` currency.
+ */
+export interface AnalyticsBucket {
+  chart: AnalyticsChart;
+  key: string;
+  label: string;
+  count: number;
+  min?: number;
+  max?: number;
+  inclusiveMax?: boolean;
+  value?: string;
+  /** Only set on the bedrooms chart */
+  median_price?: number | null;
+}
+
+const PRICE_BINS = 6;
+const SCORE_BINS = 5;
+
+function inRange(value: number, bucket: AnalyticsBucket) {
+  return value >= bucket.min! && (value < bucket.max! || (bucket.inclusiveMax && value === bucket.max));
+}
+
+function scaledPrice(property: Property, scale: PriceScale) {
+  return scale.convert(property.details.price, property.details.currency);
+}
+
+export function matchesBucket(property: Property, bucket: AnalyticsBucket, scale: PriceScale): boolean {
+  switch (bucket.chart) {
+    case "price": {
+      const price = scaledPrice(property, scale);
+      return price !== null && inRange(price, bucket);
+    }
+    case "score":
+      return inRange(property.metadata.search_score, bucket);
+    case "bedrooms":
+      return String(parseCount(property.details.bedrooms)) === bucket.value;
+    case "type":
+      return property.details.type === bucket.value;
+  }
+}
+
+function countInto(buckets: AnalyticsBucket[], values: number[]) {
+  return buckets.map((bucket) => ({
+    ...bucket,
+    count: values.filter((value) => inRange(value, bucket)).length,
+  }));
+}
+
+export function priceHistogram(
+  properties: Property[],
+  scale: PriceScale,
+  formatPrice: (price: number) => string
+): AnalyticsBucket[] {
+  const prices = properties
+    .map((property) => scaledPrice(property, scale))
+    .filter((price): price is number => price !== null);
+  if (prices.length === 0) return [];
+  const low = Math.min(...prices);
+  const high = Math.max(...prices);
+  const bins = low === high ? 1 : PRICE_BINS;
+  const width = (high - low) / bins || 1;
+
+  const buckets = Array.from({ length: bins }, (_, index) => {
+    const min = low + index * width;
+    const max = index === bins - 1 ? high : low + (index + 1) * width;
+    return {
+      chart: "price" as const,
+      key: `price-${index}`,
+      label: `${formatPrice(min)}–${formatPrice(max)}`,
+      count: 0,
+      min,
+      max,
+      inclusiveMax: index === bins - 1,
+    };
+  });
+  return countInto(buckets, prices);
+}
+
+export function bedroomsByMedianPrice(properties: Property[], scale: PriceScale): AnalyticsBucket[] {
+  const groups = new Map<number, { count: number; prices: number[] }>();
+  for (const property of properties) {
+    const bedrooms = parseCount(property.details.bedrooms);
+    const group = groups.get(bedrooms) ?? { count: 0, prices: [] };
+    const price = scaledPrice(property, scale);
+    groups.set(bedrooms, { count: group.count + 1, prices: price === null ? group.prices : [...group.prices, price] });
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([bedrooms, { count, prices }]) => ({
+      chart: "bedrooms",
+      key: `bedrooms-${bedrooms}`,
+      label: `${bedrooms} bed`,
+      count,
+      value: String(bedrooms),
+      median_price: median([...prices].sort((a, b) => a - b)),
+    }));
+}
+
+export function countsByType(properties: Property[]): AnalyticsBucket[] {
+  const counts = new Map<string, number>();
+  for (const property of properties) {
+    counts.set(property.details.type, (counts.get(property.details.type) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .map(([type, count]) => ({ chart: "type", key: `type-${type}`, label: type, count, value: type }));
+}
+
+/** search_score in fixed 20% bands, so distributions compare across searches */
+export function scoreDistribution(properties: Property[]): AnalyticsBucket[] {
+  const width = 1 / SCORE_BINS;
+  const buckets = Array.from({ length: SCORE_BINS }, (_, index) => ({
+    chart: "score" as const,
+    key: `score-${index}`,
+    label: `${Math.round(index * width * 100)}–${Math.round((index + 1) * width * 100)}%`,
+    count: 0,
+    min: index * width,
+    max: (index + 1) * width,
+    inclusiveMax: index === SCORE_BINS - 1,
+  }));
+  return countInto(buckets, properties.map((property) => property.metadata.search_score));
+}
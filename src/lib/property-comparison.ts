@@ -0,0 +1,57 @@
+import type { PriceScale } from "@/lib/formatting";
+import type { Property } from "@/lib/server-messages";
+import { parseCount } from "@/lib/property-filters";
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+export type ComparisonRowKey =
+  | "price"
+  | "bedrooms"
+  | "bathrooms"
+  | "type"
+  | "status"
+  | "mls_genuine"
+  | "search_score"
+  | "ai_analysis";
+
+export interface ComparisonRow {
+  key: ComparisonRowKey;
+  /**
+   * Numeric value used to pick the best cell, where higher is better.
+   * Rows without one (type, analysis) are shown but never highlighted, and
+   * a property ranked null (a price without a rate) is never the best.
+   */
+  rank?: (property: Property, scale: PriceScale) => number | null;
+}
+
+export const COMPARISON_ROWS: ComparisonRow[] = [
+  {
+    key: "price",
+    rank: (property, scale) => {
+      const price = scale.convert(property.details.price, property.details.currency);
+      return price === null ? null : -price;
+    },
+  },
+  { key: "bedrooms", rank: (property) => parseCount(property.details.bedrooms) },
+  { key: "bathrooms", rank: (property) => parseCount(property.details.bathrooms) },
+  { key: "type" },
+  { key: "status", rank: (property) => (property.metadata.status === "active" ? 1 : 0) },
+  { key: "mls_genuine", rank: (property) => (property.metadata.mls_genuine ? 1 : 0) },
+  { key: "search_score", rank: (property) => property.metadata.search_score },
+  { key: "ai_analysis" },
+];
+
+/**
+ * Ids of the properties holding the best value in a row. Ties are all
+ * highlighted; a row where every property is equal highlights nothing.
+ */
+export function bestPropertyIds(row: ComparisonRow, properties: Property[], scale: PriceScale): Set<string> {
+  if (!row.rank || properties.length < MIN_COMPARE) return new Set();
+  const ranks = properties.map((property) => row.rank!(property, scale));
+  const known = ranks.filter((rank): rank is number => rank !== null);
+  if (known.length === 0) return new Set();
+  const best = Math.max(...known);
+  if (ranks.every((rank) => rank === best)) return new Set();
+  return new Set(properties.filter((_, index) => ranks[index] === best).map((property) => property.id));
+}
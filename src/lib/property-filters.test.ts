@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  countActiveFilters,
+  distinctValues,
+  EMPTY_PROPERTY_FILTERS,
+  filtersFromApplied,
+  parseCount,
+  refineProperties,
+  toFiltersApplied,
+} from "@/lib/property-filters";
+import type { Property } from "@/lib/server-messages";
+import { makeProperty, NO_FILTERS_APPLIED } from "@/test/fixtures";
+
+const cottage = makeProperty({
+  id: "cottage",
+  details: { price: 300_000, bedrooms: "2", bathrooms: "1", type: "Cottage" },
+  metadata: { search_score: 0.9, status: "Pending", mls_genuine: false },
+});
+const house = makeProperty({
+  id: "house",
+  details: { price: 500_000, bedrooms: "4", bathrooms: "2.5", type: "House" },
+  metadata: { search_score: 0.7 },
+});
+const condo = makeProperty({
+  id: "condo",
+  details: { price: 400_000, bedrooms: "3", bathrooms: "2", type: "Condo" },
+  metadata: { search_score: 0.8 },
+});
+const properties = [cottage, house, condo];
+
+const ids = (list: Property[]) => list.map((property) => property.id);
+
+describe("parseCount", () => {
+  it("reads whole and fractional counts", () => {
+    expect(parseCount("3")).toBe(3);
+    expect(parseCount("2.5")).toBe(2.5);
+  });
+
+  it("treats unreadable counts as zero", () => {
+    expect(parseCount("")).toBe(0);
+    expect(parseCount("studio")).toBe(0);
+  });
+});
+
+describe("refineProperties", () => {
+  it("keeps the server's order for relevance", () => {
+    expect(ids(refineProperties(properties, EMPTY_PROPERTY_FILTERS, "relevance"))).toEqual(["cottage", "house", "condo"]);
+  });
+
+  it("filters on price range, minimum rooms, type, status and MLS", () => {
+    const refine = (filters: Partial<typeof EMPTY_PROPERTY_FILTERS>) =>
+      ids(refineProperties(properties, { ...EMPTY_PROPERTY_FILTERS, ...filters }, "relevance"));
+
+    expect(refine({ min_price: 350_000, max_price: 450_000 })).toEqual(["condo"]);
+    expect(refine({ bedrooms: 3 })).toEqual(["house", "condo"]);
+    expect(refine({ bathrooms: 2.5 })).toEqual(["house"]);
+    expect(refine({ property_type: "house" })).toEqual(["house"]);
+    expect(refine({ status: "pending" })).toEqual(["cottage"]);
+    expect(refine({ mls_genuine: true })).toEqual(["house", "condo"]);
+  });
+
+  it("sorts without reordering the input", () => {
+    expect(ids(refineProperties(properties, EMPTY_PROPERTY_FILTERS, "price_asc"))).toEqual(["cottage", "condo", "house"]);
+    expect(ids(refineProperties(properties, EMPTY_PROPERTY_FILTERS, "price_desc"))).toEqual(["house", "condo", "cottage"]);
+    expect(ids(refineProperties(properties, EMPTY_PROPERTY_FILTERS, "score_desc"))).toEqual(["cottage", "condo", "house"]);
+    expect(ids(refineProperties(properties, EMPTY_PROPERTY_FILTERS, "beds_desc"))).toEqual(["house", "condo", "cottage"]);
+    expect(ids(properties)).toEqual(["cottage", "house", "condo"]);
+  });
+});
+
+describe("filtersFromApplied and toFiltersApplied", () => {
+  it("starts from no filters without a search", () => {
+    expect(filtersFromApplied(null)).toEqual(EMPTY_PROPERTY_FILTERS);
+  });
+
+  it("round-trips the panel's fields and keeps the ones it does not edit", () => {
+    const applied = { ...NO_FILTERS_APPLIED, bedrooms: 3, mls_genuine: true, location_keywords: "near the park" };
+    const filters = { ...filtersFromApplied(applied), max_price: 600_000 };
+
+    expect(toFiltersApplied(filters, applied)).toEqual({ ...applied, max_price: 600_000 });
+  });
+
+  it("reads mls_genuine false as no MLS filter", () => {
+    expect(filtersFromApplied({ ...NO_FILTERS_APPLIED, mls_genuine: false }).mls_genuine).toBeNull();
+  });
+});
+
+describe("countActiveFilters", () => {
+  it("counts set filters only", () => {
+    expect(countActiveFilters(EMPTY_PROPERTY_FILTERS)).toBe(0);
+    expect(countActiveFilters({ ...EMPTY_PROPERTY_FILTERS, bedrooms: 2, status: "active" })).toBe(2);
+  });
+});
+
+describe("distinctValues", () => {
+  it("lists each non-empty value once, sorted", () => {
+    const blank = makeProperty({ id: "blank", details: { type: "" } });
+    expect(distinctValues([...properties, condo, blank], (property) => property.details.type)).toEqual([
+      "Condo",
+      "Cottage",
+      "House",
+    ]);
+  });
+});
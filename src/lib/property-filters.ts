@@ -0,0 +1,101 @@
+import type { FiltersApplied, Property } from "@/lib/server-messages";
+
+/**
+ * Client-side refinement of a loaded result set. Mirrors the server's
+ * `filters_applied` fields so it can be seeded from (and sent back as) them.
+ */
+export interface PropertyFilters {
+  min_price: number | null;
+  max_price: number | null;
+  /** Minimum bedrooms */
+  bedrooms: number | null;
+  /** Minimum bathrooms */
+  bathrooms: number | null;
+  property_type: string | null;
+  status: string | null;
+  mls_genuine: boolean | null;
+}
+
+export type PropertySort = "relevance" | "price_asc" | "price_desc" | "score_desc" | "beds_desc";
+
+/** Sort options in menu order; their labels are the `sort.*` catalog entries */
+export const PROPERTY_SORTS: PropertySort[] = ["relevance", "price_asc", "price_desc", "score_desc", "beds_desc"];
+
+export const EMPTY_PROPERTY_FILTERS: PropertyFilters = {
+  min_price: null,
+  max_price: null,
+  bedrooms: null,
+  bathrooms: null,
+  property_type: null,
+  status: null,
+  mls_genuine: null,
+};
+
+export function filtersFromApplied(applied: FiltersApplied | null | undefined): PropertyFilters {
+  if (!applied) return EMPTY_PROPERTY_FILTERS;
+  return {
+    min_price: applied.min_price,
+    max_price: applied.max_price,
+    bedrooms: applied.bedrooms,
+    bathrooms: applied.bathrooms,
+    property_type: applied.property_type,
+    status: null,
+    mls_genuine: applied.mls_genuine ? true : null,
+  };
+}
+
+/**
+ * Converts UI filters back into the server's `filters_applied` shape, keeping
+ * fields the panel does not edit (location keywords, analysis) from the search.
+ */
+export function toFiltersApplied(filters: PropertyFilters, base: FiltersApplied | null | undefined): FiltersApplied {
+  return {
+    min_price: filters.min_price,
+    max_price: filters.max_price,
+    bedrooms: filters.bedrooms,
+    bathrooms: filters.bathrooms,
+    property_type: filters.property_type,
+    location_keywords: base?.location_keywords ?? null,
+    mls_genuine: filters.mls_genuine,
+    ai_analysis_raw: base?.ai_analysis_raw ?? null,
+  };
+}
+
+// Listing counts come through as strings such as "3" or "2.5"
+export function parseCount(value: string): number {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+function matches(property: Property, filters: PropertyFilters): boolean {
+  const { details, metadata } = property;
+  if (filters.min_price !== null && details.price < filters.min_price) return false;
+  if (filters.max_price !== null && details.price > filters.max_price) return false;
+  if (filters.bedrooms !== null && parseCount(details.bedrooms) < filters.bedrooms) return false;
+  if (filters.bathrooms !== null && parseCount(details.bathrooms) < filters.bathrooms) return false;
+  if (filters.property_type && details.type.toLowerCase() !== filters.property_type.toLowerCase()) return false;
+  if (filters.status && metadata.status.toLowerCase() !== filters.status.toLowerCase()) return false;
+  if (filters.mls_genuine && !metadata.mls_genuine) return false;
+  return true;
+}
+
+const comparators: Record<Exclude<PropertySort, "relevance">, (a: Property, b: Property) => number> = {
+  price_asc: (a, b) => a.details.price - b.details.price,
+  price_desc: (a, b) => b.details.price - a.details.price,
+  score_desc: (a, b) => b.metadata.search_score - a.metadata.search_score,
+  beds_desc: (a, b) => parseCount(b.details.bedrooms) - parseCount(a.details.bedrooms),
+};
+
+export function refineProperties(properties: Property[], filters: PropertyFilters, sort: PropertySort): Property[] {
+  const filtered = properties.filter((property) => matches(property, filters));
+  return sort === "relevance" ? filtered : [...filtered].sort(comparators[sort]);
+}
+
+export function countActiveFilters(filters: PropertyFilters): number {
+  return Object.values(filters).filter((value) => value !== null && value !== false).length;
+}
+
+/** Distinct values present in the loaded results, for building select options. */
+export function distinctValues(properties: Property[], pick: (property: Property) => string): string[] {
+  return Array.from(new Set(properties.map(pick).filter(Boolean))).sort();
+}
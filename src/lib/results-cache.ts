@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { propertySearchResultsSchema, type Property, type SearchResultData } from "@/lib/server-messages";
+
+const STORAGE_KEY = "dwelling-scribe:results-cache";
+
+// A handful of recent result sets is enough to reopen links from this session
+const MAX_CACHED_RESULTS = 5;
+
+function readEntries(): SearchResultData[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = z.array(z.unknown()).parse(JSON.parse(raw));
+    return parsed.flatMap((entry) => {
+      const result = propertySearchResultsSchema.safeParse(entry);
+      return result.success ? [result.data] : [];
+    });
+  } catch (error) {
+    console.error("🚨 Failed to read cached results:", error);
+    return [];
+  }
+}
+
+/** Remembers a result set, most recent first, replacing any entry with the same search_id. */
+export function cacheSearchResults(results: SearchResultData) {
+  const entries = [results, ...readEntries().filter((entry) => entry.search_id !== results.search_id)];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(0, MAX_CACHED_RESULTS)));
+  } catch (error) {
+    console.error("🚨 Failed to cache results:", error);
+  }
+}
+
+export function readLatestCachedResults(): SearchResultData | null {
+  return readEntries()[0] ?? null;
+}
+
+export function readCachedResults(searchId: string): SearchResultData | null {
+  return readEntries().find((entry) => entry.search_id === searchId) ?? null;
+}
+
+export function findCachedProperty(id: string): Property | null {
+  for (const entry of readEntries()) {
+    const property = entry.properties.find((candidate) => candidate.id === id);
+    if (property) return property;
+  }
+  return null;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { createFormatters, DEFAULT_FORMAT_SETTINGS } from "@/lib/formatting";
+import { translate } from "@/lib/i18n";
+import {
+  buildBrochureHtml,
+  exportFilename,
+  filteredSearchResults,
+  propertiesToCsv,
+  type BrochureOptions,
+} from "@/lib/results-export";
+import { makeProperty, makeSearchResults, NO_FILTERS_APPLIED } from "@/test/fixtures";
+
+const options: BrochureOptions = {
+  t: (key, params) => translate("en", key, params),
+  formatters: createFormatters(DEFAULT_FORMAT_SETTINGS),
+  language: "en",
+};
+
+describe("propertiesToCsv", () => {
+  it("writes a header row and one row per property", () => {
+    const csv = propertiesToCsv([makeProperty({ id: "a" }), makeProperty({ id: "b" })]);
+    const rows = csv.split("\r\n");
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0].split(",").slice(0, 3)).toEqual(["id", "address", "price"]);
+    expect(rows[1].startsWith('a,"12 Maple Street, Springfield",450000,')).toBe(true);
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    const csv = propertiesToCsv([makeProperty({ details: { description: 'A "cozy" home,\nnear the park' } })]);
+
+    expect(csv).toContain('"A ""cozy"" home,\nnear the park"');
+  });
+
+  it("neutralizes text cells a spreadsheet would run as a formula", () => {
+    const csv = propertiesToCsv([
+      makeProperty({ details: { address: "=HYPERLINK(\"https://evil.example\")", description: "@SUM(A1)" } }),
+    ]);
+
+    expect(csv).toContain(`"'=HYPERLINK(""https://evil.example"")"`);
+    expect(csv).toContain("'@SUM(A1)");
+  });
+
+  it("leaves negative numbers alone", () => {
+    const csv = propertiesToCsv([makeProperty({ metadata: { search_score: -1 } })]);
+
+    expect(csv.split("\r\n")[1].split(",")).toContain("-1");
+  });
+});
+
+describe("filteredSearchResults", () => {
+  it("narrows the results to the shown properties and filters", () => {
+    const shown = makeProperty({ id: "shown" });
+    const results = makeSearchResults([shown, makeProperty({ id: "hidden" })]);
+    const filters = { ...NO_FILTERS_APPLIED, bedrooms: 3 };
+
+    const filtered = filteredSearchResults(results, [shown], filters);
+
+    expect(filtered.properties).toEqual([shown]);
+    expect(filtered.summary).toEqual({ ...results.summary, showing: 1 });
+    expect(filtered.filters_applied).toBe(filters);
+    expect(filtered.search_id).toBe(results.search_id);
+  });
+});
+
+describe("buildBrochureHtml", () => {
+  it("escapes listing text", () => {
+    const html = buildBrochureHtml(
+      makeSearchResults([makeProperty({ details: { address: "<script>alert(1)</script> Lane" } })]),
+      options
+    );
+
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt; Lane");
+  });
+
+  it("links http(s) listings and images", () => {
+    const html = buildBrochureHtml(makeSearchResults([makeProperty({ id: "p9" })]), options);
+
+    expect(html).toContain('<a href="https://listings.example.com/p9">');
+    expect(html).toContain('<img src="https://images.example.com/p9.jpg"');
+  });
+
+  it("drops javascript: and other non-http URLs", () => {
+    const property = makeProperty({
+      url: "javascript:alert(document.cookie)",
+      images: { primary: "data:image/svg+xml,<svg onload=alert(1)>" },
+    });
+    const html = buildBrochureHtml(makeSearchResults([property]), options);
+
+    expect(html).not.toContain("javascript:");
+    expect(html).not.toContain("data:image");
+    expect(html).not.toContain("<img");
+    expect(html).not.toContain('class="link"');
+  });
+});
+
+describe("exportFilename", () => {
+  it("slugs the query and dates the file", () => {
+    expect(exportFilename("3-Bed Homes, near Austin!", "csv")).toMatch(/^3-bed-homes-near-austin-\d{4}-\d{2}-\d{2}\.csv$/);
+  });
+
+  it("falls back to a generic name", () => {
+    expect(exportFilename("¿?", "json")).toMatch(/^properties-\d{4}-\d{2}-\d{2}\.json$/);
+  });
+});
@@ -0,0 +1,194 @@
+import { parseAnalysis } from "@/lib/ai-analysis";
+import type { Formatters } from "@/lib/formatting";
+import type { MessageKey, MessageParams } from "@/lib/i18n";
+import type { FiltersApplied, Property, SearchResultData } from "@/lib/server-messages";
+
+export type ExportFormat = "csv" | "json" | "brochure";
+
+const CSV_COLUMNS: Array<{ header: string; value: (property: Property) => string | number | boolean }> = [
+  { header: "id", value: (property) => property.id },
+  { header: "address", value: (property) => property.details.address },
+  { header: "price", value: (property) => property.details.price },
+  { header: "currency", value: (property) => property.details.currency },
+  { header: "bedrooms", value: (property) => property.details.bedrooms },
+  { header: "bathrooms", value: (property) => property.details.bathrooms },
+  { header: "type", value: (property) => property.details.type },
+  { header: "status", value: (property) => property.metadata.status },
+  { header: "mls_genuine", value: (property) => property.metadata.mls_genuine },
+  { header: "search_score", value: (property) => property.metadata.search_score },
+  { header: "url", value: (property) => property.url },
+  { header: "primary_image", value: (property) => property.images.primary },
+  { header: "description", value: (property) => property.details.description },
+  { header: "ai_analysis", value: (property) => property.details.ai_analysis_raw ?? "" },
+];
+
+// Spreadsheets run a text cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsv(value: string | number | boolean) {
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function propertiesToCsv(properties: Property[]): string {
+  const rows = [
+    CSV_COLUMNS.map((column) => column.header),
+    ...properties.map((property) => CSV_COLUMNS.map((column) => column.value(property))),
+  ];
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n");
+}
+
+/** The results as the bot sent them, narrowed to the properties currently shown. */
+export function filteredSearchResults(
+  results: SearchResultData,
+  properties: Property[],
+  filtersApplied: FiltersApplied
+): SearchResultData {
+  return {
+    ...results,
+    filters_applied: filtersApplied,
+    summary: { ...results.summary, showing: properties.length },
+    properties,
+  };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Only absolute http(s) URLs make it into the brochure; anything else, `javascript:` included, is dropped. */
+function safeUrl(value: string | null | undefined): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface BrochureOptions {
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatters: Formatters;
+  language: string;
+}
+
+function brochureAnalysis(property: Property, t: BrochureOptions["t"]) {
+  const sections = parseAnalysis(property.details.ai_analysis_raw);
+  if (sections.length === 0) return "";
+  const body = sections
+    .map(
+      (section) =>
+        `<p>${section.heading ? `<strong>${escapeHtml(section.heading)}:</strong> ` : ""}${escapeHtml(section.lines.join(" "))}</p>`
+    )
+    .join("");
+  return `<div class="analysis"><h3>${escapeHtml(t("property.analysis"))}</h3>${body}</div>`;
+}
+
+function brochureProperty(property: Property, { t, formatters }: BrochureOptions) {
+  const { details, metadata } = property;
+  const facts = [
+    t("property.beds", { count: Number(details.bedrooms) || 0 }),
+    t("property.baths", { count: Number(details.bathrooms) || 0 }),
+    details.type,
+    metadata.status,
+    metadata.mls_genuine ? t("property.mlsVerified") : null,
+  ].filter(Boolean);
+  const image = safeUrl(property.images.primary);
+  const link = safeUrl(property.url);
+
+  return `
+    <article class="property">
+      ${image ? `<img src="${escapeHtml(image)}" alt="${escapeHtml(details.address)}" />` : ""}
+      <div class="body">
+        <h2>${escapeHtml(details.address)}</h2>
+        <p class="price">${escapeHtml(formatters.formatPrice(details.price, details.currency))}</p>
+        <p class="facts">${facts.map((fact) => escapeHtml(fact)).join(" · ")}</p>
+        ${details.description ? `<p>${escapeHtml(details.description)}</p>` : ""}
+        ${brochureAnalysis(property, t)}
+        ${link ? `<p class="link"><a href="${escapeHtml(link)}">${escapeHtml(link)}</a></p>` : ""}
+      </div>
+    </article>`;
+}
+
+/** A standalone, print-ready page; the browser's print dialog turns it into a PDF. */
+export function buildBrochureHtml(results: SearchResultData, options: BrochureOptions): string {
+  const { t, formatters, language } = options;
+  const title = t("export.brochure.title", { query: results.query });
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(language)}">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #1f2937; margin: 2rem; }
+    header { border-bottom: 2px solid #e5e7eb; margin-bottom: 1.5rem; }
+    header p { color: #6b7280; }
+    .property { display: flex; gap: 1.5rem; padding: 1.5rem 0; border-bottom: 1px solid #e5e7eb; break-inside: avoid; }
+    .property img { width: 280px; height: 200px; object-fit: cover; border-radius: 8px; flex-shrink: 0; }
+    .property h2 { margin: 0 0 0.25rem; font-size: 1.25rem; }
+    .price { font-size: 1.5rem; font-weight: 700; color: #2563eb; margin: 0.25rem 0; }
+    .facts { color: #4b5563; }
+    .analysis { background: #f9fafb; border-radius: 8px; padding: 0.75rem 1rem; font-size: 0.9rem; }
+    .analysis h3 { margin: 0 0 0.5rem; font-size: 1rem; }
+    .link { font-size: 0.8rem; word-break: break-all; }
+    .print { margin-bottom: 1rem; }
+    @media print { .print { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <button class="print" onclick="window.print()">${escapeHtml(t("export.brochure.print"))}</button>
+  <header>
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(
+      t("export.brochure.summary", {
+        count: results.properties.length,
+        formatted: formatters.formatNumber(results.properties.length),
+        date: formatters.formatDate(Date.now()),
+      })
+    )}</p>
+  </header>
+  ${results.properties.map((property) => brochureProperty(property, options)).join("")}
+</body>
+</html>`;
+}
+
+export function exportFilename(query: string, extension: string) {
+  const slug = query
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  const date = new Date().toISOString().slice(0, 10);
+  return `${slug || "properties"}-${date}.${extension}`;
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Opens the brochure in a new tab to print; downloads it instead if pop-ups are blocked. */
+export function openBrochure(filename: string, html: string) {
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+  const opened = window.open(url, "_blank");
+  if (!opened) {
+    URL.revokeObjectURL(url);
+    downloadFile(filename, html, "text/html");
+    return;
+  }
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
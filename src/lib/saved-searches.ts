@@ -0,0 +1,74 @@
+import { z } from "zod";
+import {
+  filtersAppliedSchema,
+  propertySearchResultsSchema,
+  type Property,
+  type SearchResultData,
+} from "@/lib/server-messages";
+
+export const SAVED_SEARCHES_STORAGE_KEY = "dwelling-scribe:saved-searches";
+
+export const savedSearchSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  saved_at: z.number(),
+  query: z.string(),
+  filters_applied: filtersAppliedSchema,
+  /** The results exactly as they were when saved, for offline viewing and diffing */
+  results: propertySearchResultsSchema,
+});
+
+export type SavedSearch = z.infer<typeof savedSearchSchema>;
+
+/**
+ * Results view for a saved search, with its saved filters re-applied. It takes
+ * the saved search's id so caching it never replaces the live search it came from.
+ */
+export function savedSearchToResults(search: SavedSearch): SearchResultData {
+  return { ...search.results, search_id: search.id, filters_applied: search.filters_applied };
+}
+
+export interface PriceChange {
+  property: Property;
+  from: number;
+  to: number;
+}
+
+export interface StatusChange {
+  property: Property;
+  from: string;
+  to: string;
+}
+
+export interface SearchResultsDiff {
+  added: Property[];
+  removed: Property[];
+  priceChanges: PriceChange[];
+  statusChanges: StatusChange[];
+}
+
+export function diffSearchResults(before: SearchResultData, after: SearchResultData): SearchResultsDiff {
+  const beforeById = new Map(before.properties.map((property) => [property.id, property]));
+  const afterIds = new Set(after.properties.map((property) => property.id));
+
+  const diff: SearchResultsDiff = { added: [], removed: [], priceChanges: [], statusChanges: [] };
+  for (const property of after.properties) {
+    const previous = beforeById.get(property.id);
+    if (!previous) {
+      diff.added.push(property);
+      continue;
+    }
+    if (previous.details.price !== property.details.price) {
+      diff.priceChanges.push({ property, from: previous.details.price, to: property.details.price });
+    }
+    if (previous.metadata.status !== property.metadata.status) {
+      diff.statusChanges.push({ property, from: previous.metadata.status, to: property.metadata.status });
+    }
+  }
+  diff.removed = before.properties.filter((property) => !afterIds.has(property.id));
+  return diff;
+}
+
+export function isEmptyDiff(diff: SearchResultsDiff) {
+  return !diff.added.length && !diff.removed.length && !diff.priceChanges.length && !diff.statusChanges.length;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_PROPERTY_FILTERS } from "@/lib/property-filters";
+import { parseSearchUrl, withFilters, withSearch, withSelectedProperty, withSort } from "@/lib/search-url";
+
+const params = (search: string) => new URLSearchParams(search);
+
+describe("parseSearchUrl", () => {
+  it("reads the search, sort and selected property", () => {
+    expect(parseSearchUrl(params("search=abc&q=family+homes&sort=price_asc&property=p42"))).toEqual({
+      searchId: "abc",
+      query: "family homes",
+      filterOverrides: {},
+      sort: "price_asc",
+      propertyId: "p42",
+    });
+  });
+
+  it("defaults to relevance for a missing or unknown sort", () => {
+    expect(parseSearchUrl(params("")).sort).toBe("relevance");
+    expect(parseSearchUrl(params("sort=cheapest")).sort).toBe("relevance");
+  });
+
+  it("reads filter overrides, with any clearing the server's value", () => {
+    expect(parseSearchUrl(params("beds=3&max_price=500000&type=any&mls=1")).filterOverrides).toEqual({
+      bedrooms: 3,
+      max_price: 500_000,
+      property_type: null,
+      mls_genuine: true,
+    });
+  });
+
+  it("ignores filter values it can't read", () => {
+    expect(parseSearchUrl(params("beds=three&min_price=&mls=yes")).filterOverrides).toEqual({});
+  });
+});
+
+describe("withSearch", () => {
+  it("drops the previous search's refinements and keeps unrelated params", () => {
+    const next = withSearch(params("devtools&search=old&q=old&beds=2&sort=price_asc&property=p1"), "new", "condos");
+
+    expect(next.toString()).toBe("devtools=&search=new&q=condos");
+  });
+});
+
+describe("withFilters", () => {
+  const serverFilters = { ...EMPTY_PROPERTY_FILTERS, bedrooms: 2, property_type: "House" };
+
+  it("stores only what differs from the server's filters", () => {
+    const next = withFilters(params(""), { ...serverFilters, max_price: 600_000, mls_genuine: true }, serverFilters);
+
+    expect(next.toString()).toBe("max_price=600000&mls=1");
+  });
+
+  it("marks a cleared server filter as any", () => {
+    const next = withFilters(params(""), { ...serverFilters, property_type: null }, serverFilters);
+
+    expect(next.get("type")).toBe("any");
+  });
+
+  it("round-trips through parseSearchUrl", () => {
+    const filters = { ...serverFilters, bedrooms: 4, property_type: null, min_price: 250_000 };
+    const { filterOverrides } = parseSearchUrl(withFilters(params(""), filters, serverFilters));
+
+    expect({ ...serverFilters, ...filterOverrides }).toEqual(filters);
+  });
+});
+
+describe("withSort and withSelectedProperty", () => {
+  it("leave the default out of the URL", () => {
+    expect(withSort(params("sort=price_asc"), "relevance").has("sort")).toBe(false);
+    expect(withSort(params(""), "beds_desc").get("sort")).toBe("beds_desc");
+    expect(withSelectedProperty(params("property=p1"), null).has("property")).toBe(false);
+    expect(withSelectedProperty(params(""), "p2").get("property")).toBe("p2");
+  });
+
+  it("don't change the params they were given", () => {
+    const original = params("sort=price_asc");
+    withSort(original, "relevance");
+
+    expect(original.get("sort")).toBe("price_asc");
+  });
+});
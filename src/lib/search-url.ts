@@ -0,0 +1,124 @@
+import {
+  PROPERTY_SORTS,
+  type PropertyFilters,
+  type PropertySort,
+} from "@/lib/property-filters";
+
+/**
+ * Search state shared through the dashboard URL, e.g.
+ * `/?search=abc123&q=family+homes&beds=3&sort=price_asc&property=p42`.
+ *
+ * Filters are stored as overrides of the search's own `filters_applied`: a
+ * missing param keeps the server's value and `any` clears it, so a link made
+ * before the user touched the Refine panel stays short.
+ */
+export const SEARCH_PARAMS = {
+  searchId: "search",
+  query: "q",
+  sort: "sort",
+  property: "property",
+} as const;
+
+const FILTER_PARAMS: Record<keyof PropertyFilters, string> = {
+  min_price: "min_price",
+  max_price: "max_price",
+  bedrooms: "beds",
+  bathrooms: "baths",
+  property_type: "type",
+  status: "status",
+  mls_genuine: "mls",
+};
+
+const CLEARED = "any";
+
+export interface SearchUrlState {
+  searchId: string | null;
+  query: string | null;
+  filterOverrides: Partial<PropertyFilters>;
+  sort: PropertySort;
+  propertyId: string | null;
+}
+
+function isPropertySort(value: string | null): value is PropertySort {
+  return PROPERTY_SORTS.includes(value as PropertySort);
+}
+
+function parseFilterValue(key: keyof PropertyFilters, raw: string): PropertyFilters[typeof key] | undefined {
+  if (raw === CLEARED) return null;
+  switch (key) {
+    case "property_type":
+    case "status":
+      return raw;
+    case "mls_genuine":
+      return raw === "1" ? true : undefined;
+    default: {
+      const value = Number(raw);
+      return raw !== "" && Number.isFinite(value) ? value : undefined;
+    }
+  }
+}
+
+export function parseSearchUrl(params: URLSearchParams): SearchUrlState {
+  const filterOverrides: Partial<PropertyFilters> = {};
+  for (const [key, name] of Object.entries(FILTER_PARAMS) as Array<[keyof PropertyFilters, string]>) {
+    const raw = params.get(name);
+    if (raw === null) continue;
+    const value = parseFilterValue(key, raw);
+    // Unparseable values fall back to the server's filter
+    if (value !== undefined) (filterOverrides as Record<string, unknown>)[key] = value;
+  }
+
+  const sort = params.get(SEARCH_PARAMS.sort);
+  return {
+    searchId: params.get(SEARCH_PARAMS.searchId),
+    query: params.get(SEARCH_PARAMS.query),
+    filterOverrides,
+    sort: isPropertySort(sort) ? sort : "relevance",
+    propertyId: params.get(SEARCH_PARAMS.property),
+  };
+}
+
+/** Copies `params`, so unrelated flags such as `?devtools` survive every update. */
+function cloneParams(params: URLSearchParams) {
+  return new URLSearchParams(params);
+}
+
+/** Points the URL at a new result set, dropping the previous search's refinements. */
+export function withSearch(params: URLSearchParams, searchId: string, query: string) {
+  const next = cloneParams(params);
+  next.set(SEARCH_PARAMS.searchId, searchId);
+  next.set(SEARCH_PARAMS.query, query);
+  Object.values(FILTER_PARAMS).forEach((name) => next.delete(name));
+  next.delete(SEARCH_PARAMS.sort);
+  next.delete(SEARCH_PARAMS.property);
+  return next;
+}
+
+export function withFilters(params: URLSearchParams, filters: PropertyFilters, serverFilters: PropertyFilters) {
+  const next = cloneParams(params);
+  for (const [key, name] of Object.entries(FILTER_PARAMS) as Array<[keyof PropertyFilters, string]>) {
+    const value = filters[key];
+    if (value === serverFilters[key]) {
+      next.delete(name);
+    } else if (value === null || value === false) {
+      next.set(name, CLEARED);
+    } else {
+      next.set(name, value === true ? "1" : String(value));
+    }
+  }
+  return next;
+}
+
+export function withSort(params: URLSearchParams, sort: PropertySort) {
+  const next = cloneParams(params);
+  if (sort === "relevance") next.delete(SEARCH_PARAMS.sort);
+  else next.set(SEARCH_PARAMS.sort, sort);
+  return next;
+}
+
+export function withSelectedProperty(params: URLSearchParams, propertyId: string | null) {
+  const next = cloneParams(params);
+  if (propertyId) next.set(SEARCH_PARAMS.property, propertyId);
+  else next.delete(SEARCH_PARAMS.property);
+  return next;
+}
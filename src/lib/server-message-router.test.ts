@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createServerMessageRouter, type ServerMessageFallbackHandler } from "@/lib/server-message-router";
+
+const focus = { type: "property_focus", property_id: "p1" };
+
+describe("createServerMessageRouter", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("hands a valid message to every handler for its type only", () => {
+    const router = createServerMessageRouter();
+    const first = vi.fn();
+    const second = vi.fn();
+    const other = vi.fn();
+    router.register("property_focus", first);
+    router.register("property_focus", second);
+    router.register("market_stats", other);
+
+    router.dispatch(focus);
+
+    expect(first).toHaveBeenCalledWith(focus);
+    expect(second).toHaveBeenCalledWith(focus);
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it("stops calling a handler once it unregisters", () => {
+    const router = createServerMessageRouter();
+    const handler = vi.fn();
+    const unregister = router.register("property_focus", handler);
+
+    unregister();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    router.dispatch(focus);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("sends unknown and malformed messages to the fallbacks", () => {
+    const router = createServerMessageRouter();
+    const handler = vi.fn();
+    const fallback = vi.fn<ServerMessageFallbackHandler>(() => true);
+    router.register("property_focus", handler);
+    router.registerFallback(fallback);
+
+    router.dispatch({ type: "weather_report" });
+    router.dispatch({ type: "property_focus" });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(fallback.mock.calls.map(([error]) => error.reason)).toEqual(["unknown_type", "invalid_payload"]);
+  });
+
+  it("reports a message no fallback handled", () => {
+    const router = createServerMessageRouter();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    router.registerFallback(() => false);
+
+    router.dispatch({ type: "weather_report" });
+
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it("keeps dispatching when one handler throws", () => {
+    const router = createServerMessageRouter();
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const after = vi.fn();
+    router.register("property_focus", () => {
+      throw new Error("boom");
+    });
+    router.register("property_focus", after);
+
+    router.dispatch(focus);
+
+    expect(after).toHaveBeenCalledOnce();
+    expect(error).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  parseServerMessage,
+  ServerMessageValidationError,
+  type ServerMessage,
+  type ServerMessageOf,
+  type ServerMessageType,
+} from "@/lib/server-messages";
+
+export type ServerMessageHandler<T extends ServerMessageType> = (message: ServerMessageOf<T>) => void;
+// Return true when the message was dealt with; otherwise it is reported as unhandled in dev
+export type ServerMessageFallbackHandler = (error: ServerMessageValidationError, raw: unknown) => boolean | void;
+
+export interface ServerMessageRouter {
+  register: <T extends ServerMessageType>(type: T, handler: ServerMessageHandler<T>) => () => void;
+  registerFallback: (handler: ServerMessageFallbackHandler) => () => void;
+  dispatch: (raw: unknown) => void;
+}
+
+/**
+ * Validates each raw server message once and hands it to the handlers
+ * registered for its `type`; messages without a schema, or that fail it,
+ * go to the fallbacks.
+ */
+export function createServerMessageRouter(): ServerMessageRouter {
+  const handlers = new Map<string, Set<(message: ServerMessage) => void>>();
+  const fallbacks = new Set<ServerMessageFallbackHandler>();
+
+  const register = <T extends ServerMessageType>(type: T, handler: ServerMessageHandler<T>) => {
+    const entry = handler as (message: ServerMessage) => void;
+    if (!handlers.has(type)) handlers.set(type, new Set());
+    handlers.get(type)!.add(entry);
+    return () => {
+      handlers.get(type)?.delete(entry);
+    };
+  };
+
+  const registerFallback = (handler: ServerMessageFallbackHandler) => {
+    fallbacks.add(handler);
+    return () => {
+      fallbacks.delete(handler);
+    };
+  };
+
+  const fallBack = (error: ServerMessageValidationError, raw: unknown) => {
+    let handled = false;
+    fallbacks.forEach((handler) => {
+      if (handler(error, raw) === true) handled = true;
+    });
+    if (!handled && import.meta.env.DEV) {
+      console.warn("⚠️ Unhandled server message:", error.message, raw);
+    }
+  };
+
+  const dispatch = (raw: unknown) => {
+    let message: ServerMessage;
+    try {
+      message = parseServerMessage(raw);
+    } catch (error) {
+      if (error instanceof ServerMessageValidationError) {
+        fallBack(error, raw);
+        return;
+      }
+      throw error;
+    }
+
+    const typeHandlers = handlers.get(message.type);
+    if (!typeHandlers || typeHandlers.size === 0) {
+      if (import.meta.env.DEV) console.warn(`⚠️ No handler registered for server message "${message.type}"`, message);
+      return;
+    }
+    typeHandlers.forEach((handler) => {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(`🚨 Handler for "${message.type}" failed:`, error);
+      }
+    });
+  };
+
+  return { register, registerFallback, dispatch };
+}
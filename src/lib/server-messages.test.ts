@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseServerMessage, ServerMessageValidationError } from "@/lib/server-messages";
+import { makeProperty, makeSearchResults } from "@/test/fixtures";
+
+const validationError = (raw: unknown) => {
+  try {
+    parseServerMessage(raw);
+  } catch (error) {
+    if (error instanceof ServerMessageValidationError) return error;
+    throw error;
+  }
+  throw new Error("Expected a ServerMessageValidationError");
+};
+
+describe("parseServerMessage", () => {
+  it("returns a valid message with its defaults filled in", () => {
+    const raw = makeSearchResults([makeProperty()]);
+    const { details } = raw.properties[0];
+    delete details.currency;
+    delete details.description;
+
+    const message = parseServerMessage({ ...raw, properties: [{ ...raw.properties[0], details }] });
+
+    expect(message.type).toBe("property_search_results");
+    expect(message).toMatchObject({ properties: [{ details: { currency: "USD", description: "" } }] });
+  });
+
+  it("reads numeric room counts as strings", () => {
+    const property = makeProperty();
+    const raw = makeSearchResults([{ ...property, details: { ...property.details, bedrooms: 3 as unknown as string } }]);
+
+    expect(parseServerMessage(raw)).toMatchObject({ properties: [{ details: { bedrooms: "3" } }] });
+  });
+
+  it("rejects a message without a string type", () => {
+    expect(validationError({ text: "hello" })).toMatchObject({ reason: "missing_type", messageType: null });
+    expect(validationError(null).reason).toBe("missing_type");
+  });
+
+  it("rejects an unknown type", () => {
+    const error = validationError({ type: "weather_report" });
+
+    expect(error).toMatchObject({ reason: "unknown_type", messageType: "weather_report" });
+    expect(error.message).toBe('Unknown server message type "weather_report"');
+  });
+
+  it("rejects a malformed payload and names the bad fields", () => {
+    const error = validationError({ type: "property_focus", property_id: 42 });
+
+    expect(error.reason).toBe("invalid_payload");
+    expect(error.issues.map((issue) => issue.path.join("."))).toEqual(["property_id"]);
+    expect(error.message).toMatch(/^Invalid "property_focus" payload: property_id: /);
+    expect(error.name).toBe("ServerMessageValidationError");
+  });
+
+  it("checks the ui_action payload for its action", () => {
+    expect(parseServerMessage({ type: "ui_action", action_id: "a1", action: "load_more", count: 2 })).toMatchObject({
+      action: "load_more",
+      count: 2,
+    });
+    expect(validationError({ type: "ui_action", action_id: "a1", action: "load_more", count: 0 }).reason).toBe(
+      "invalid_payload"
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { z } from "zod";
+
+// Bedrooms/bathrooms arrive as strings from the scraper but some backends send numbers
+const countSchema = z.union([z.string(), z.number()]).transform(String);
+
+export const propertySchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  images: z.object({
+    primary: z.string(),
+    all: z.array(z.string()).default([]),
+  }),
+  details: z.object({
+    address: z.string(),
+    price: z.number(),
+    currency: z.string().default("USD"),
+    bedrooms: countSchema,
+    bathrooms: countSchema,
+    type: z.string(),
+    description: z.string().default(""),
+    ai_analysis_raw: z.string().nullable().optional(),
+  }),
+  metadata: z.object({
+    search_score: z.number(),
+    mls_genuine: z.boolean(),
+    status: z.string(),
+  }),
+});
+
+export const filtersAppliedSchema = z.object({
+  min_price: z.number().nullable().default(null),
+  max_price: z.number().nullable().default(null),
+  bedrooms: z.number().nullable().default(null),
+  bathrooms: z.number().nullable().default(null),
+  property_type: z.string().nullable().default(null),
+  location_keywords: z.string().nullable().default(null),
+  mls_genuine: z.boolean().nullable().default(null),
+  ai_analysis_raw: z.string().nullable().default(null),
+});
+
+export const propertySearchResultsSchema = z.object({
+  type: z.literal("property_search_results"),
+  timestamp: z.number(),
+  search_id: z.string(),
+  query: z.string(),
+  summary: z.object({
+    total_found: z.number(),
+    showing: z.number(),
+    execution_time: z.number(),
+    search_type: z.string(),
+  }),
+  filters_applied: filtersAppliedSchema,
+  properties: z.array(propertySchema),
+});
+
+export const propertySearchErrorSchema = z.object({
+  type: z.literal("property_search_error"),
+  error: z.string(),
+  timestamp: z.number().optional(),
+  search_id: z.string().optional(),
+  query: z.string().optional(),
+});
+
+/**
+ * Backend market figures. Every value is optional; anything sent overrides the
+ * statistics computed from the loaded results.
+ */
+export const marketStatsSchema = z.object({
+  type: z.literal("market_stats"),
+  /** Ties the figures to one result set; omitted means they apply to any */
+  search_id: z.string().nullable().optional(),
+  currency: z.string().optional(),
+  total_listings: z.number().optional(),
+  median_price: z.number().optional(),
+  mean_price: z.number().optional(),
+  min_price: z.number().optional(),
+  max_price: z.number().optional(),
+  active_count: z.number().optional(),
+  other_status_count: z.number().optional(),
+  /** 0–1 */
+  mls_verified_share: z.number().min(0).max(1).optional(),
+  high_score_count: z.number().optional(),
+  /** Market-wide price movement, e.g. 2.3 for +2.3% */
+  price_change_percent: z.number().optional(),
+});
+
+/** The property the bot is talking about; its card scrolls into view and pulses. */
+export const propertyFocusSchema = z.object({
+  type: z.literal("property_focus"),
+  property_id: z.string(),
+  search_id: z.string().nullable().optional(),
+});
+
+const uiActionBaseSchema = z.object({
+  type: z.literal("ui_action"),
+  /** Echoed back in the `ui_action_result` acknowledgement */
+  action_id: z.string(),
+});
+
+/** A property in the current results: by id, or by 1-based grid position ("the second one") */
+const uiActionTargetShape = {
+  property_id: z.string().optional(),
+  index: z.number().int().min(1).optional(),
+};
+
+const propertySortSchema = z.enum(["relevance", "price_asc", "price_desc", "score_desc", "beds_desc"]);
+
+/**
+ * Voice commands the bot asks the dashboard to carry out, e.g. "sort by price"
+ * or "show me the second one". Every action is acknowledged with a
+ * `ui_action_result` client message.
+ */
+export const uiActionSchema = z.discriminatedUnion("action", [
+  uiActionBaseSchema.extend({ action: z.literal("highlight_property"), ...uiActionTargetShape }),
+  uiActionBaseSchema.extend({ action: z.literal("open_details"), ...uiActionTargetShape }),
+  uiActionBaseSchema.extend({
+    action: z.literal("apply_filters"),
+    /** Fields to change; null clears a filter */
+    filters: z
+      .object({
+        min_price: z.number().nullable(),
+        max_price: z.number().nullable(),
+        bedrooms: z.number().nullable(),
+        bathrooms: z.number().nullable(),
+        property_type: z.string().nullable(),
+        status: z.string().nullable(),
+        mls_genuine: z.boolean().nullable(),
+      })
+      .partial(),
+    /** Start from the search's own filters instead of the current refinements */
+    replace: z.boolean().default(false),
+  }),
+  uiActionBaseSchema.extend({ action: z.literal("set_sort"), sort: propertySortSchema }),
+  uiActionBaseSchema.extend({ action: z.literal("add_favorite"), ...uiActionTargetShape }),
+  uiActionBaseSchema.extend({
+    action: z.literal("open_comparison"),
+    /** Properties to add to the comparison first; omitted opens the current selection */
+    targets: z.array(z.object(uiActionTargetShape)).optional(),
+  }),
+  uiActionBaseSchema.extend({ action: z.literal("load_more"), count: z.number().int().min(1).optional() }),
+  uiActionBaseSchema.extend({ action: z.literal("save_search"), name: z.string().optional() }),
+]);
+
+/**
+ * Every server message type the dashboard understands, keyed by its `type` field.
+ * Add new backend message types here so they are validated before reaching components.
+ */
+export const serverMessageSchemas = {
+  property_search_results: propertySearchResultsSchema,
+  property_search_error: propertySearchErrorSchema,
+  market_stats: marketStatsSchema,
+  property_focus: propertyFocusSchema,
+  ui_action: uiActionSchema,
+} as const;
+
+export type ServerMessageType = keyof typeof serverMessageSchemas;
+export type ServerMessageOf<T extends ServerMessageType> = z.infer<(typeof serverMessageSchemas)[T]>;
+export type ServerMessage = { [T in ServerMessageType]: ServerMessageOf<T> }[ServerMessageType];
+
+export type Property = z.infer<typeof propertySchema>;
+export type FiltersApplied = z.infer<typeof filtersAppliedSchema>;
+export type SearchResultData = ServerMessageOf<"property_search_results">;
+export type PropertySearchError = ServerMessageOf<"property_search_error">;
+export type MarketStatsMessage = ServerMessageOf<"market_stats">;
+export type UiAction = ServerMessageOf<"ui_action">;
+export type UiActionName = UiAction["action"];
+
+export type ServerMessageValidationReason = "missing_type" | "unknown_type" | "invalid_payload";
+
+export class ServerMessageValidationError extends Error {
+  readonly reason: ServerMessageValidationReason;
+  readonly messageType: string | null;
+  readonly issues: z.ZodIssue[];
+
+  constructor(reason: ServerMessageValidationReason, messageType: string | null, issues: z.ZodIssue[] = []) {
+    super(ServerMessageValidationError.describe(reason, messageType, issues));
+    this.name = "ServerMessageValidationError";
+    this.reason = reason;
+    this.messageType = messageType;
+    this.issues = issues;
+  }
+
+  private static describe(reason: ServerMessageValidationReason, messageType: string | null, issues: z.ZodIssue[]) {
+    if (reason === "missing_type") return "Server message has no string `type` field";
+    if (reason === "unknown_type") return `Unknown server message type "${messageType}"`;
+    const details = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    return `Invalid "${messageType}" payload: ${details}`;
+  }
+}
+
+export function isKnownServerMessageType(type: unknown): type is ServerMessageType {
+  return typeof type === "string" && Object.prototype.hasOwnProperty.call(serverMessageSchemas, type);
+}
+
+/**
+ * Validates a raw RTVI server message against its schema.
+ * Throws a ServerMessageValidationError for untyped, unknown or malformed messages.
+ */
+export function parseServerMessage(raw: unknown): ServerMessage {
+  const type = (raw as { type?: unknown } | null)?.type;
+  if (typeof type !== "string") {
+    throw new ServerMessageValidationError("missing_type", null);
+  }
+  if (!isKnownServerMessageType(type)) {
+    throw new ServerMessageValidationError("unknown_type", type);
+  }
+
+  const result = serverMessageSchemas[type].safeParse(raw);
+  if (!result.success) {
+    throw new ServerMessageValidationError("invalid_payload", type, result.error.issues);
+  }
+  return result.data as ServerMessage;
+}
@@ -0,0 +1,178 @@
+import { z } from "zod";
+import { RTVIEvent, type PipecatClient } from "@pipecat-ai/client-js";
+
+/** Events worth replaying: everything the dashboard and chat console react to. */
+export const RECORDED_EVENTS = [
+  RTVIEvent.TransportStateChanged,
+  RTVIEvent.Connected,
+  RTVIEvent.Disconnected,
+  RTVIEvent.BotReady,
+  RTVIEvent.BotConnected,
+  RTVIEvent.BotDisconnected,
+  RTVIEvent.Error,
+  RTVIEvent.ServerMessage,
+  RTVIEvent.UserTranscript,
+  RTVIEvent.BotTranscript,
+  RTVIEvent.BotOutput,
+  RTVIEvent.UserStartedSpeaking,
+  RTVIEvent.UserStoppedSpeaking,
+  RTVIEvent.BotStartedSpeaking,
+  RTVIEvent.BotStoppedSpeaking,
+  RTVIEvent.BotLlmStarted,
+  RTVIEvent.BotLlmStopped,
+] as const;
+
+const recordedEventSchema = z.object({
+  t: z.number().nonnegative(),
+  event: z.enum(RECORDED_EVENTS as unknown as [string, ...string[]]),
+  args: z.array(z.unknown()),
+});
+
+export const sessionRecordingSchema = z.object({
+  version: z.literal(1),
+  recorded_at: z.string(),
+  duration_ms: z.number().nonnegative(),
+  events: z.array(recordedEventSchema),
+});
+
+export type RecordedEvent = z.infer<typeof recordedEventSchema>;
+export type SessionRecording = z.infer<typeof sessionRecordingSchema>;
+
+// Errors are RTVIMessage instances; keep only the plain data so the file round-trips
+function toSerializable(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/** Captures RTVI events from a live client, timestamped relative to start(). */
+export class SessionRecorder {
+  private _events: RecordedEvent[] = [];
+  private _startedAt = 0;
+  private _unsubscribers: Array<() => void> = [];
+
+  constructor(private readonly client: PipecatClient) {}
+
+  get isRecording() {
+    return this._unsubscribers.length > 0;
+  }
+
+  get eventCount() {
+    return this._events.length;
+  }
+
+  start() {
+    if (this.isRecording) return;
+    this._events = [];
+    this._startedAt = performance.now();
+
+    // Seed the current transport state so a replay starts from the same place
+    this._events.push({ t: 0, event: RTVIEvent.TransportStateChanged, args: [this.client.state] });
+
+    for (const event of RECORDED_EVENTS) {
+      const listener = (...args: unknown[]) => {
+        this._events.push({
+          t: Math.round(performance.now() - this._startedAt),
+          event,
+          args: args.map(toSerializable),
+        });
+      };
+      const emitter = this.client as unknown as {
+        on: (event: string, listener: (...args: unknown[]) => void) => void;
+        off: (event: string, listener: (...args: unknown[]) => void) => void;
+      };
+      emitter.on(event, listener);
+      this._unsubscribers.push(() => emitter.off(event, listener));
+    }
+  }
+
+  stop(): SessionRecording {
+    this._unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this._unsubscribers = [];
+    return {
+      version: 1,
+      recorded_at: new Date().toISOString(),
+      duration_ms: Math.round(performance.now() - this._startedAt),
+      events: this._events,
+    };
+  }
+}
+
+// Set only while a replayed event is being dispatched; listeners run synchronously inside emit()
+let dispatchingReplay = false;
+
+/**
+ * True inside a listener that is handling a replayed event rather than a live
+ * one. Anything that acts on the real call (reconnecting, messaging the bot)
+ * must check this and leave replayed events alone.
+ */
+export function isReplayedEvent() {
+  return dispatchingReplay;
+}
+
+export interface ReplayOptions {
+  /** 1 plays at real speed, 4 plays four times faster */
+  speed?: number;
+  onProgress?: (elapsedMs: number, durationMs: number) => void;
+  onFinish?: () => void;
+}
+
+/**
+ * Re-emits a recording on a PipecatClient so every hook under the same
+ * PipecatClientProvider sees it exactly as it saw the live session. Replayed
+ * events are flagged through isReplayedEvent() so they never drive the call itself.
+ */
+export class SessionReplayer {
+  private _timers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(
+    private readonly client: PipecatClient,
+    private readonly recording: SessionRecording
+  ) {}
+
+  get isPlaying() {
+    return this._timers.length > 0;
+  }
+
+  play({ speed = 1, onProgress, onFinish }: ReplayOptions = {}) {
+    this.stop();
+    const emitter = this.client as unknown as { emit: (event: string, ...args: unknown[]) => void };
+
+    for (const { t, event, args } of this.recording.events) {
+      this._timers.push(
+        setTimeout(() => {
+          dispatchingReplay = true;
+          try {
+            emitter.emit(event, ...args);
+          } finally {
+            dispatchingReplay = false;
+          }
+          onProgress?.(t, this.recording.duration_ms);
+        }, t / speed)
+      );
+    }
+    this._timers.push(
+      setTimeout(() => {
+        this._timers = [];
+        onFinish?.();
+      }, this.recording.duration_ms / speed)
+    );
+  }
+
+  stop() {
+    this._timers.forEach(clearTimeout);
+    this._timers = [];
+  }
+}
+
+export function parseSessionRecording(json: string): SessionRecording {
+  return sessionRecordingSchema.parse(JSON.parse(json));
+}
+
+export function downloadSessionRecording(recording: SessionRecording) {
+  const blob = new Blob([JSON.stringify(recording, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `rtvi-session-${recording.recorded_at.replace(/[:.]/g, "-")}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
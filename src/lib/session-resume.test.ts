@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_PROPERTY_FILTERS } from "@/lib/property-filters";
+import { buildResumeContext, isEmptyResumeContext, summarizeTranscript, type TranscriptTurn } from "@/lib/session-resume";
+import { makeProperty, makeSearchResults, NO_FILTERS_APPLIED } from "@/test/fixtures";
+
+describe("summarizeTranscript", () => {
+  it("labels each speaker and skips empty turns", () => {
+    const turns: TranscriptTurn[] = [
+      { speaker: "user", text: "Find me a  house\nwith a yard" },
+      { speaker: "assistant", text: "   " },
+      { speaker: "assistant", text: "Here are three." },
+    ];
+
+    expect(summarizeTranscript(turns)).toBe("User: Find me a house with a yard\nAssistant: Here are three.");
+  });
+
+  it("keeps the last twelve turns", () => {
+    const turns = Array.from({ length: 15 }, (_, index): TranscriptTurn => ({ speaker: "user", text: `turn ${index}` }));
+    const lines = summarizeTranscript(turns).split("\n");
+
+    expect(lines).toHaveLength(12);
+    expect(lines[0]).toBe("User: turn 3");
+  });
+
+  it("cuts long turns short", () => {
+    const summary = summarizeTranscript([{ speaker: "assistant", text: "a".repeat(500) }]);
+
+    expect(summary).toHaveLength("Assistant: ".length + 280);
+    expect(summary.endsWith("…")).toBe(true);
+  });
+});
+
+describe("buildResumeContext", () => {
+  const search = makeSearchResults([], { filters_applied: { ...NO_FILTERS_APPLIED, bedrooms: 2 } });
+  const favorite = {
+    property: makeProperty({ id: "fav", details: { address: "1 Elm Road", price: 300_000 } }),
+    saved_at: 0,
+    search_query: null,
+  };
+
+  it("carries the search, its filters and the favorites", () => {
+    expect(buildResumeContext({ turns: [], search, favorites: [favorite] })).toEqual({
+      transcript_summary: "",
+      search_id: "search-1",
+      last_query: "family homes",
+      filters_applied: search.filters_applied,
+      favorites: [{ property_id: "fav", address: "1 Elm Road", price: 300_000 }],
+    });
+  });
+
+  it("sends the filters the results panel shows", () => {
+    const filters = { ...EMPTY_PROPERTY_FILTERS, bedrooms: 4 };
+
+    expect(buildResumeContext({ turns: [], search, filters, favorites: [] }).filters_applied).toMatchObject({ bedrooms: 4 });
+  });
+
+  it("has nothing to resume without a conversation, search or favorites", () => {
+    const empty = buildResumeContext({ turns: [], search: null, favorites: [] });
+
+    expect(empty).toMatchObject({ search_id: null, last_query: null, filters_applied: null });
+    expect(isEmptyResumeContext(empty)).toBe(true);
+    expect(isEmptyResumeContext(buildResumeContext({ turns: [], search: null, favorites: [favorite] }))).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import type { Favorite } from "@/lib/favorites";
+import type { ResumeSessionMessage } from "@/lib/client-messages";
+import { toFiltersApplied, type PropertyFilters } from "@/lib/property-filters";
+import type { SearchResultData } from "@/lib/server-messages";
+
+const MAX_SUMMARY_TURNS = 12;
+const MAX_TURN_CHARS = 280;
+
+export interface TranscriptTurn {
+  speaker: "user" | "assistant";
+  text: string;
+}
+
+function truncate(text: string, max: number) {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > max ? `${clean.slice(0, max - 1)}…` : clean;
+}
+
+/**
+ * Condenses the chat into the last few turns, long ones cut short, so the
+ * bot gets the gist of the earlier call without the whole history.
+ */
+export function summarizeTranscript(turns: TranscriptTurn[]): string {
+  const recent = turns.filter((turn) => turn.text.trim()).slice(-MAX_SUMMARY_TURNS);
+  return recent
+    .map((turn) => `${turn.speaker === "user" ? "User" : "Assistant"}: ${truncate(turn.text, MAX_TURN_CHARS)}`)
+    .join("\n");
+}
+
+interface ResumeContextSource {
+  turns: TranscriptTurn[];
+  search: SearchResultData | null;
+  /** The filters the results panel shows; defaults to the bot's own */
+  filters?: PropertyFilters | null;
+  favorites: Favorite[];
+}
+
+export function buildResumeContext({ turns, search, filters, favorites }: ResumeContextSource): ResumeSessionMessage {
+  return {
+    transcript_summary: summarizeTranscript(turns),
+    search_id: search?.search_id ?? null,
+    last_query: search?.query ?? null,
+    filters_applied: search
+      ? filters
+        ? toFiltersApplied(filters, search.filters_applied)
+        : search.filters_applied
+      : null,
+    favorites: favorites.map(({ property }) => ({
+      property_id: property.id,
+      address: property.details.address,
+      price: property.details.price,
+    })),
+  };
+}
+
+/** Nothing worth restoring: no conversation, no search and no favorites yet. */
+export function isEmptyResumeContext(context: ResumeSessionMessage) {
+  return !context.transcript_summary && !context.search_id && context.favorites.length === 0;
+}
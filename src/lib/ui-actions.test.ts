@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { resolveActionTarget, UiActionError, type UiActionTarget } from "@/lib/ui-actions";
+import { makeProperty } from "@/test/fixtures";
+
+const cottage = makeProperty({ id: "cottage" });
+const house = makeProperty({ id: "house" });
+const hidden = makeProperty({ id: "hidden" });
+const visible = [house, cottage];
+const all = [cottage, house, hidden];
+
+const reasonFor = (target: UiActionTarget) => {
+  try {
+    resolveActionTarget(target, visible, all);
+  } catch (error) {
+    if (error instanceof UiActionError) return error.reason;
+    throw error;
+  }
+  throw new Error("Expected a UiActionError");
+};
+
+describe("resolveActionTarget", () => {
+  it("counts the index in the grid as shown, from 1", () => {
+    expect(resolveActionTarget({ index: 1 }, visible, all)).toBe(house);
+    expect(resolveActionTarget({ index: 2 }, visible, all)).toBe(cottage);
+  });
+
+  it("finds an id among all results, filtered out ones included", () => {
+    expect(resolveActionTarget({ property_id: "hidden" }, visible, all)).toBe(hidden);
+  });
+
+  it("prefers the id over the index", () => {
+    expect(resolveActionTarget({ property_id: "cottage", index: 1 }, visible, all)).toBe(cottage);
+  });
+
+  it("reports a target that isn't there", () => {
+    expect(reasonFor({ property_id: "gone" })).toBe("property_not_found");
+    expect(reasonFor({ index: 3 })).toBe("property_not_found");
+    expect(reasonFor({ index: 0 })).toBe("property_not_found");
+  });
+
+  it("needs an id or an index", () => {
+    expect(reasonFor({})).toBe("invalid_action");
+  });
+});
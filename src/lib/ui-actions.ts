@@ -0,0 +1,49 @@
+import type { Property } from "@/lib/server-messages";
+
+export type UiActionErrorReason =
+  | "invalid_action"
+  | "no_results"
+  | "property_not_found"
+  | "nothing_to_load"
+  | "not_enough_to_compare"
+  | "failed";
+
+/** Thrown by an action handler; reported back to the bot in `ui_action_result`. */
+export class UiActionError extends Error {
+  readonly reason: UiActionErrorReason;
+
+  constructor(reason: UiActionErrorReason, message: string) {
+    super(message);
+    this.name = "UiActionError";
+    this.reason = reason;
+  }
+}
+
+export interface UiActionTarget {
+  property_id?: string;
+  index?: number;
+}
+
+/**
+ * Finds the property an action refers to. `index` counts the grid as the user
+ * sees it, after filters and sort; an id may also match a listing that is
+ * currently filtered out.
+ */
+export function resolveActionTarget(target: UiActionTarget, visible: Property[], all: Property[]): Property {
+  if (target.property_id) {
+    const property = all.find((candidate) => candidate.id === target.property_id);
+    if (!property) throw new UiActionError("property_not_found", `No property with id "${target.property_id}"`);
+    return property;
+  }
+  if (target.index !== undefined) {
+    const property = visible[target.index - 1];
+    if (!property) {
+      throw new UiActionError(
+        "property_not_found",
+        `There is no property #${target.index}; ${visible.length} match the current filters`
+      );
+    }
+    return property;
+  }
+  throw new UiActionError("invalid_action", "Action needs a property_id or index");
+}
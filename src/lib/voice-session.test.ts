@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isConnectingTransportState, reconnectDelay, toError, withTimeout } from "@/lib/voice-session";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("reconnectDelay", () => {
+  it("doubles from one second", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect([1, 2, 3, 4].map(reconnectDelay)).toEqual([1_000, 2_000, 4_000, 8_000]);
+  });
+
+  it("caps the wait at 30 seconds", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(reconnectDelay(10)).toBe(30_000);
+  });
+
+  it("jitters by up to 20% either way", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(reconnectDelay(3)).toBe(3_200);
+
+    vi.spyOn(Math, "random").mockReturnValue(0.999_999);
+    expect(reconnectDelay(3)).toBe(4_800);
+  });
+});
+
+describe("withTimeout", () => {
+  it("settles with the promise when it's in time", async () => {
+    vi.useFakeTimers();
+    const result = withTimeout(Promise.resolve("ready"), 1_000, "too slow");
+
+    await expect(result).resolves.toBe("ready");
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("passes the promise's own rejection through", async () => {
+    await expect(withTimeout(Promise.reject(new Error("refused")), 1_000, "too slow")).rejects.toThrow("refused");
+  });
+
+  it("rejects with the message once the time is up", async () => {
+    vi.useFakeTimers();
+    const result = withTimeout(new Promise(() => {}), 1_000, "too slow");
+    const settled = expect(result).rejects.toThrow("too slow");
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await settled;
+  });
+});
+
+describe("isConnectingTransportState", () => {
+  it("covers every state between disconnected and connected", () => {
+    expect(["initializing", "authenticating", "authenticated", "connecting"].every(isConnectingTransportState)).toBe(true);
+    expect(isConnectingTransportState("connected")).toBe(false);
+    expect(isConnectingTransportState("disconnected")).toBe(false);
+  });
+});
+
+describe("toError", () => {
+  it("wraps anything that isn't an Error", () => {
+    const error = new Error("boom");
+
+    expect(toError(error)).toBe(error);
+    expect(toError("boom")).toEqual(new Error("boom"));
+  });
+});
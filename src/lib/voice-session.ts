@@ -0,0 +1,60 @@
+import type { TransportState } from "@pipecat-ai/client-js";
+import type { MessageKey } from "@/lib/i18n";
+
+/**
+ * Lifecycle of the voice call as the UI sees it. `connected` means the
+ * transport is up but the bot isn't ready yet; `reconnecting` covers both the
+ * wait before a retry and the retry itself.
+ */
+export type VoiceSessionStatus = "idle" | "connecting" | "connected" | "ready" | "reconnecting" | "error";
+
+export const MAX_RECONNECT_ATTEMPTS = 5;
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+/** 1s, 2s, 4s, … capped at 30s, with ±20% jitter so many tabs don't retry in lockstep. */
+export function reconnectDelay(attempt: number): number {
+  const delay = Math.min(BASE_RECONNECT_DELAY_MS * 2 ** (attempt - 1), MAX_RECONNECT_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/** How long one connect attempt may take to reach a ready bot before it is abandoned */
+export const CONNECT_TIMEOUT_MS = 30_000;
+
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+const CONNECTING_STATES: TransportState[] = ["initializing", "authenticating", "authenticated", "connecting"];
+
+export function isConnectingTransportState(state: TransportState) {
+  return CONNECTING_STATES.includes(state);
+}
+
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/** Badge text for each status; `reconnecting` takes `{ attempt, max }`. */
+export const VOICE_STATUS_LABELS: Record<VoiceSessionStatus, MessageKey> = {
+  idle: "connection.disconnected",
+  connecting: "connection.connecting",
+  connected: "connection.connected",
+  ready: "connection.connected",
+  reconnecting: "connection.reconnecting",
+  error: "connection.error",
+};
+
+/** Status light shown next to the badge text, in the header and the chat console */
+export const STATUS_DOT_STYLES: Record<VoiceSessionStatus, string> = {
+  idle: "bg-red-500",
+  connecting: "bg-yellow-500 animate-pulse",
+  connected: "bg-green-500",
+  ready: "bg-green-500",
+  reconnecting: "bg-yellow-500 animate-pulse",
+  error: "bg-red-500 animate-pulse",
+};
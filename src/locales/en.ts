@@ -0,0 +1,365 @@
+/**
+ * English source catalog. Every key used in the UI lives here; other catalogs
+ * translate these keys and fall back to English for anything missing.
+ * Plural messages are keyed by `Intl.PluralRules` category and picked by `count`.
+ */
+export const en = {
+  "app.name": "RealEstate AI",
+  "app.tagline": "Intelligent Property Search Dashboard",
+  "language.label": "Language",
+
+  "common.yes": "Yes",
+  "common.no": "No",
+  "common.save": "Save",
+  "common.cancel": "Cancel",
+  "common.clear": "Clear",
+  "common.reset": "Reset",
+  "common.remove": "Remove",
+  "common.delete": "Delete",
+  "common.dismiss": "Dismiss",
+
+  "connection.connect": "Connect",
+  "connection.disconnect": "Disconnect",
+  "connection.connected": "Connected",
+  "connection.connecting": "Connecting...",
+  "connection.disconnected": "Disconnected",
+  "connection.error": "Error",
+  "connection.unknown": "Unknown",
+  "connection.gettingReady": "Getting Ready...",
+  "connection.initializing": "Initializing...",
+  "connection.reconnecting": "Reconnecting ({attempt}/{max})...",
+  "connection.lastError": "Last error: {error}",
+  "connection.hint.end": "Click to end the call",
+  "connection.hint.start": "Click to start a video call with AI",
+  "connection.status": "Status: {state}",
+
+  "toast.connected.title": "Connected!",
+  "toast.connected.description": "You are now connected to the video call.",
+  "toast.ready.title": "Ready!",
+  "toast.ready.description": "Bot is ready for conversation.",
+  "toast.reconnecting.title": "Connection lost",
+  "toast.reconnecting.description": "Reconnecting in {seconds}s (attempt {attempt} of {max}).",
+  "toast.reconnectFailed.title": "Could not reconnect",
+  "toast.reconnectFailed.description": "The call dropped and could not be restored. Click Connect to try again.",
+  "toast.disconnected.title": "Disconnected",
+  "toast.disconnected.description": "You have been disconnected from the call.",
+  "toast.connectionError.title": "Connection Error",
+  "toast.connectionError.description": "Failed to connect to the call. Please try again.",
+  "toast.botReady.title": "Bot Ready",
+  "toast.botReady.description": "The AI assistant is now ready to chat.",
+  "toast.connectFailed.title": "Connection Failed",
+  "toast.connectFailed.description": "Unable to connect to the server. Please check your network and try again.",
+  "toast.callEnded.title": "Call ended",
+  "toast.callEnded.description": "You have disconnected from the call.",
+  "toast.disconnectError.title": "Disconnect Error",
+  "toast.disconnectError.description": "Error while disconnecting. Please refresh the page.",
+  "toast.searchSaved.title": "Search saved",
+  "toast.searchSaved.description": "\"{name}\" is available under Saved.",
+  "toast.searchSaveFailed.title": "Couldn't save search",
+  "toast.snapshotUpdateFailed.title": "Couldn't update saved search",
+  "toast.searchDeleteFailed.title": "Couldn't delete saved search",
+  "toast.storageUnavailable": "Browser storage is full or unavailable.",
+
+  "dashboard.voiceActive": "Voice Active",
+  "dashboard.voiceOff": "Voice Off",
+  "dashboard.voiceSearchActive": "Voice Search Active",
+  "dashboard.currentSearch": "Current Search: \"{query}\"",
+  "dashboard.searchTime": "{seconds}s search time",
+
+  "chat.title": "AI Property Assistant",
+  "chat.welcome":
+    "Hello! I'm your real estate assistant. I can help you search for properties. You can speak to me or type your questions!",
+  "chat.listening": "Listening",
+  "chat.liveTranscript": "Live transcript",
+  "chat.micOn": "Mic On",
+  "chat.micOff": "Mic Off",
+  "chat.debug": {
+    one: "{count} message | Listening: {listening} | Transport: {transport}",
+    other: "{count} messages | Listening: {listening} | Transport: {transport}",
+  },
+  "chat.empty.connected": "Connected! Start speaking or type a message.",
+  "chat.empty.realtime": "The AI will respond in real-time.",
+  "chat.empty.finalOnly": "Final transcripts only - no interim display",
+  "chat.empty.interim": "Your words appear live while you speak",
+  "chat.empty.disconnected": "Connect to start chatting",
+  "chat.empty.awaits": "AI-powered conversation awaits!",
+  "chat.label.youSpoken": "You (Spoken)",
+  "chat.label.youSpeaking": "You (Speaking…)",
+  "chat.label.youTyped": "You (Typed)",
+  "chat.label.assistant": "AI Assistant",
+  "chat.label.assistantVoice": "AI Assistant (Voice)",
+  "chat.muteMic": "Mute Mic",
+  "chat.enableMic": "Enable Mic",
+  "chat.placeholder": "Type a message...",
+  "chat.sendFailed": "Failed to send message. Please try again.",
+  "chat.processFailed": "Failed to process message. Please try again.",
+  "chat.status.disconnected": "Click \"Connect\" to start voice conversation with AI",
+  "chat.status.responding": "AI is responding...",
+  "chat.status.listening": "Voice detected - processing final transcript",
+  "chat.status.micOn": "🎤 Voice enabled - speak naturally for AI conversation",
+  "chat.status.micOff": "Enable microphone for voice chat or type to search properties",
+  "chat.quick.fencing": "Good fencing",
+  "chat.quick.fencing.prompt": "Find me a house with good fencing",
+  "chat.quick.budget": "Under $500k",
+  "chat.quick.budget.prompt": "Properties under $500,000",
+  "chat.quick.bedrooms": "3 bedrooms",
+  "chat.quick.bedrooms.prompt": "Show me 3 bedroom homes",
+
+  "results.title": "Search Results",
+  "results.query": "Query:",
+  "results.totalFound": "Total found:",
+  "results.showing": "Showing:",
+  "results.ofMatching": "of {count} matching",
+  "results.refine": "Refine Search",
+  "results.save": "Save Search",
+  "results.chartFilter": "Chart filter:",
+  "results.clearChartFilter": "Clear chart filter",
+  "results.noMatches": "No properties match these filters.",
+  "results.resetFilters": "Reset filters",
+  "results.loadMore": {
+    one: "Load More Properties ({formatted} remaining)",
+    other: "Load More Properties ({formatted} remaining)",
+  },
+  "results.error.title": "Oops! Something went wrong",
+  "results.error.description": "Our property search got a little lost. Maybe try asking again? 🏠✨",
+  "results.empty.title": "Ready to find your dream home?",
+  "results.empty.description": "Just ask me to search for properties and I'll find the perfect matches! 🏡",
+
+  "export.button": "Export",
+  "export.csv": "CSV spreadsheet",
+  "export.json": "JSON data",
+  "export.brochure": "Printable brochure (PDF)",
+  "export.brochure.title": "Properties: {query}",
+  "export.brochure.print": "Print / Save as PDF",
+  "export.brochure.summary": {
+    one: "{formatted} property · prepared {date}",
+    other: "{formatted} properties · prepared {date}",
+  },
+
+  "refine.minPrice": "Min price",
+  "refine.maxPrice": "Max price",
+  "refine.noMin": "No min",
+  "refine.noMax": "No max",
+  "refine.bedrooms": "Bedrooms",
+  "refine.bathrooms": "Bathrooms",
+  "refine.propertyType": "Property type",
+  "refine.status": "Status",
+  "refine.sortBy": "Sort by",
+  "refine.any": "Any",
+  "refine.mlsOnly": "MLS verified only",
+  "refine.hint.connected": "The assistant sees these filters and will use them in your next search.",
+  "refine.hint.disconnected": "Connect to the assistant to search again with these filters.",
+  "refine.reset": "Reset to search filters",
+  "refine.searchAgain": "Search again",
+
+  "sort.relevance": "Relevance",
+  "sort.price_asc": "Price: low to high",
+  "sort.price_desc": "Price: high to low",
+  "sort.score_desc": "Best score",
+  "sort.beds_desc": "Most bedrooms",
+
+  "property.mlsVerified": "MLS Verified",
+  "property.score": "Score: {score}",
+  "property.beds": "{count} bed",
+  "property.baths": "{count} bath",
+  "property.readMore": "Read more",
+  "property.readLess": "Read less",
+  "property.imageLoading": "Loading image...",
+  "property.imageUnavailable": "Image unavailable",
+  "property.addToShortlist": "Add to shortlist",
+  "property.removeFromShortlist": "Remove from shortlist",
+  "property.compare": "Compare",
+  "property.comparing": "Comparing",
+  "property.analysis": "AI Property Analysis",
+  "property.noAnalysis": "No AI analysis available for this property.",
+
+  "affordability.affordable": "Affordable",
+  "affordability.stretch": "Stretch",
+  "affordability.over_budget": "Over budget",
+  "affordability.perMonth": "~{amount}/mo",
+
+  "shortlist.title": "Shortlist",
+  "shortlist.tab": "Shortlist ({count})",
+  "shortlist.clearAll": "Clear all",
+  "shortlist.empty.title": "Your shortlist is empty",
+  "shortlist.empty.description": "Tap the heart on any property to keep it here across searches. 💕",
+  "shortlist.saved": "Saved {when}",
+  "shortlist.savedFrom": "Saved {when} from \"{query}\"",
+
+  "saved.button": "Saved",
+  "saved.title": "Saved Searches",
+  "saved.description": "Reopen a saved snapshot offline, or ask the assistant to run it again and see what changed.",
+  "saved.empty.title": "No saved searches yet.",
+  "saved.empty.description": "Use \"Save Search\" on a result set to keep it here.",
+  "saved.propertyCount": { one: "{count} property", other: "{count} properties" },
+  "saved.savedWhen": "saved {when}",
+  "saved.open": "Open",
+  "saved.rerun": "Re-run",
+
+  "saveDialog.description": "Saves the query, your filters and the current results so you can reopen them offline.",
+  "saveDialog.name": "Name",
+  "saveDialog.placeholder": "e.g. Family homes under $500k",
+
+  "changes.title": "Changes since \"{name}\"",
+  "changes.savedWhen": "was saved {when}",
+  "changes.none": "No changes — the same properties at the same prices.",
+  "changes.added": "{count} new",
+  "changes.removed": "{count} no longer listed",
+  "changes.priceChanges": { one: "{count} price change", other: "{count} price changes" },
+  "changes.statusChanges": { one: "{count} status change", other: "{count} status changes" },
+  "changes.newLabel": "New:",
+  "changes.goneLabel": "Gone:",
+  "changes.priceDrop": "Price drop:",
+  "changes.priceRise": "Price rise:",
+  "changes.statusLabel": "Status:",
+  "changes.updateSnapshot": "Update saved snapshot",
+
+  "compare.tray": "Compare {count}/{max}",
+  "compare.title": "Compare Properties",
+  "compare.description": "The best value in each row is highlighted.",
+  "compare.remove": "Remove from comparison",
+  "compare.addAnother": "Add another property to compare",
+  "compare.noAnalysis": "No analysis",
+  "compare.row.price": "Price",
+  "compare.row.bedrooms": "Bedrooms",
+  "compare.row.bathrooms": "Bathrooms",
+  "compare.row.type": "Type",
+  "compare.row.status": "Status",
+  "compare.row.mls_genuine": "MLS verified",
+  "compare.row.search_score": "Search score",
+  "compare.row.ai_analysis": "AI analysis",
+
+  "stats.title": "Market Statistics",
+  "stats.listings": "Listings",
+  "stats.medianPrice": "Median price",
+  "stats.meanPrice": "Mean price",
+  "stats.priceRange": "Price range",
+  "stats.active": "Active",
+  "stats.otherStatus": "Other status",
+  "stats.mlsVerified": "MLS verified",
+  "stats.highScore": "High Score",
+  "stats.highScoreThreshold": "High score (≥{threshold})",
+  "stats.source.server": "Market data",
+  "stats.source.results": "From results",
+  "stats.marketUp": "Market Up {percent}",
+  "stats.marketDown": "Market Down {percent}",
+
+  "analytics.title": "Analytics",
+  "analytics.hint": "Click a bar to show only those properties.",
+  "analytics.properties": "Properties",
+  "analytics.price": "Price distribution",
+  "analytics.bedrooms": "Median price by bedrooms",
+  "analytics.type": "Properties by type",
+  "analytics.score": "Search score distribution",
+
+  "mortgage.title": "Mortgage Calculator",
+  "mortgage.price": "Price",
+  "mortgage.downPayment": "Down payment",
+  "mortgage.rate": "Interest rate (%)",
+  "mortgage.term": "Term (years)",
+  "mortgage.taxesPerYear": "Property taxes / year",
+  "mortgage.insurancePerYear": "Insurance / year",
+  "mortgage.monthlyPayment": "Estimated monthly payment",
+  "mortgage.forProfile": "{level} for your profile",
+  "mortgage.principalInterest": "Principal & interest",
+  "mortgage.taxes": "Taxes",
+  "mortgage.insurance": "Insurance",
+  "mortgage.loanAmount": "Loan amount",
+  "mortgage.totalInterest": "Total interest",
+  "mortgage.amortization": "Amortization by year",
+  "mortgage.principal": "Principal",
+  "mortgage.interest": "Interest",
+  "mortgage.year": "Year {year}",
+
+  "buyer.title": "Buyer Profile",
+  "buyer.description": "Saved in this browser and used to mark each property as affordable, a stretch or over budget.",
+  "buyer.income": "Annual household income",
+  "buyer.maxBudget": "Maximum budget",
+  "buyer.downPayment": "Down payment saved",
+  "buyer.rate": "Expected interest rate (%)",
+  "buyer.term": "Loan term (years)",
+  "buyer.clear": "Clear profile",
+
+  "display.title": "Display Settings",
+  "display.description": "How prices, numbers and dates are shown. Preview: {preview}",
+  "display.locale": "Locale",
+  "display.browserDefault": "Browser default",
+  "display.currency": "Display currency",
+  "display.listingCurrency": "Listing currency (no conversion)",
+  "display.rates": "Exchange rates (per 1 USD)",
+
+  "detail.notFound.title": "Property not found",
+  "detail.notFound.description":
+    "This listing isn't in your recent results, shortlist or saved searches. Run the search again to view it.",
+  "detail.backToDashboard": "Back to dashboard",
+  "detail.backToResults": "Back to results",
+  "detail.copyLink": "Copy link",
+  "detail.linkCopied.title": "Link copied",
+  "detail.linkCopied.description": "Share it to reopen this property.",
+  "detail.shortlisted": "Shortlisted",
+  "detail.viewListing": "View listing",
+  "detail.description": "Description",
+  "detail.noDescription": "No description provided.",
+  "detail.photoAlt": "{address} — photo {index}",
+  "detail.photoCount": { one: "{count} photo", other: "{count} photos" },
+
+  "devices.title": "Audio devices",
+  "devices.microphone": "Microphone",
+  "devices.speaker": "Speaker",
+  "devices.none": "No devices found",
+  "devices.numbered": "Device {index}",
+  "devices.detect": "Detect devices",
+  "devices.unnamed": "The device",
+  "devices.systemDefault": "the system default",
+  "devices.micUnplugged.title": "Microphone disconnected",
+  "devices.speakerUnplugged.title": "Speaker disconnected",
+  "devices.unplugged.description": "{device} was unplugged, so we switched to {fallback}. Plug it back in to use it again.",
+  "devices.error.title": "Audio device problem",
+  "devices.error.description": "Check that your microphone is connected and allowed in the browser.",
+
+  "settings.title": "Connection settings",
+  "settings.open": "Connection settings",
+  "settings.profiles": "Environment profiles",
+  "settings.profilesDescription": "Both connect buttons use the active profile.",
+  "settings.editorDescription": "Where to reach the bot and which services it should use.",
+  "settings.active": "Active",
+  "settings.useProfile": "Use this profile",
+  "settings.addProfile": "New profile",
+  "settings.newProfileName": "Profile {count}",
+  "settings.copyName": "{name} (copy)",
+  "settings.duplicate": "Duplicate",
+  "settings.name": "Profile name",
+  "settings.endpoint": "Connect endpoint URL",
+  "settings.llm": "LLM",
+  "settings.tts": "Text to speech",
+  "settings.stt": "Speech to text",
+  "settings.botDefault": "Bot default",
+  "settings.requestData": "Extra request data (JSON)",
+  "settings.requestDataHint": "Sent with every connect request, next to the services and language.",
+  "settings.saveFailed.title": "Couldn't save profile",
+  "settings.saved.title": "Profile saved",
+  "settings.saved.description": "\"{name}\" is up to date.",
+  "settings.saved.nextCall": "\"{name}\" is saved; the changes apply from the next call.",
+  "settings.error.nameRequired": "Give the profile a name.",
+  "settings.error.endpointRequired": "Enter the bot's connect URL.",
+  "settings.error.endpointInvalid": "That isn't a valid URL.",
+  "settings.error.endpointProtocol": "The URL must start with http:// or https://.",
+  "settings.error.endpointDoubleScheme": "The URL repeats its scheme, e.g. \"https://https://\".",
+  "settings.error.requestDataJson": "This isn't valid JSON.",
+  "settings.error.requestDataObject": "Request data must be a JSON object.",
+
+  "recorder.title": "Session Recorder",
+  "recorder.record": "Record",
+  "recorder.stopAndSave": "Stop & Save",
+  "recorder.load": "Load",
+  "recorder.replay": "Replay",
+  "recorder.stop": "Stop",
+  "recorder.eventCount": { one: "{count} event", other: "{count} events" },
+  "recorder.saved.title": "Recording saved",
+  "recorder.saved.description": { one: "{count} event over {seconds}s", other: "{count} events over {seconds}s" },
+  "recorder.invalid.title": "Invalid recording",
+  "recorder.invalid.description": "That file is not an RTVI session recording.",
+
+  "notFound.title": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+} as const;
@@ -0,0 +1,362 @@
+import type { Catalog } from "@/lib/i18n";
+
+export const es: Partial<Catalog> = {
+  "app.name": "RealEstate AI",
+  "app.tagline": "Panel inteligente de búsqueda de propiedades",
+  "language.label": "Idioma",
+
+  "common.yes": "Sí",
+  "common.no": "No",
+  "common.save": "Guardar",
+  "common.cancel": "Cancelar",
+  "common.clear": "Limpiar",
+  "common.reset": "Restablecer",
+  "common.remove": "Quitar",
+  "common.delete": "Eliminar",
+  "common.dismiss": "Cerrar",
+
+  "connection.connect": "Conectar",
+  "connection.disconnect": "Desconectar",
+  "connection.connected": "Conectado",
+  "connection.connecting": "Conectando...",
+  "connection.disconnected": "Desconectado",
+  "connection.error": "Error",
+  "connection.unknown": "Desconocido",
+  "connection.gettingReady": "Preparando...",
+  "connection.initializing": "Iniciando...",
+  "connection.reconnecting": "Reconectando ({attempt}/{max})...",
+  "connection.lastError": "Último error: {error}",
+  "connection.hint.end": "Haz clic para terminar la llamada",
+  "connection.hint.start": "Haz clic para iniciar una videollamada con la IA",
+  "connection.status": "Estado: {state}",
+
+  "toast.connected.title": "¡Conectado!",
+  "toast.connected.description": "Ya estás conectado a la videollamada.",
+  "toast.ready.title": "¡Listo!",
+  "toast.ready.description": "El asistente está listo para conversar.",
+  "toast.reconnecting.title": "Conexión perdida",
+  "toast.reconnecting.description": "Reconectando en {seconds} s (intento {attempt} de {max}).",
+  "toast.reconnectFailed.title": "No se pudo reconectar",
+  "toast.reconnectFailed.description": "La llamada se cortó y no se pudo recuperar. Pulsa Conectar para intentarlo de nuevo.",
+  "toast.disconnected.title": "Desconectado",
+  "toast.disconnected.description": "Te has desconectado de la llamada.",
+  "toast.connectionError.title": "Error de conexión",
+  "toast.connectionError.description": "No se pudo conectar a la llamada. Inténtalo de nuevo.",
+  "toast.botReady.title": "Asistente listo",
+  "toast.botReady.description": "El asistente de IA ya puede chatear.",
+  "toast.connectFailed.title": "Falló la conexión",
+  "toast.connectFailed.description": "No se pudo conectar con el servidor. Revisa tu red e inténtalo de nuevo.",
+  "toast.callEnded.title": "Llamada finalizada",
+  "toast.callEnded.description": "Te has desconectado de la llamada.",
+  "toast.disconnectError.title": "Error al desconectar",
+  "toast.disconnectError.description": "Error al desconectar. Recarga la página.",
+  "toast.searchSaved.title": "Búsqueda guardada",
+  "toast.searchSaved.description": "\"{name}\" está disponible en Guardadas.",
+  "toast.searchSaveFailed.title": "No se pudo guardar la búsqueda",
+  "toast.snapshotUpdateFailed.title": "No se pudo actualizar la búsqueda guardada",
+  "toast.searchDeleteFailed.title": "No se pudo eliminar la búsqueda guardada",
+  "toast.storageUnavailable": "El almacenamiento del navegador está lleno o no disponible.",
+
+  "dashboard.voiceActive": "Voz activa",
+  "dashboard.voiceOff": "Voz apagada",
+  "dashboard.voiceSearchActive": "Búsqueda por voz activa",
+  "dashboard.currentSearch": "Búsqueda actual: \"{query}\"",
+  "dashboard.searchTime": "{seconds} s de búsqueda",
+
+  "chat.title": "Asistente inmobiliario IA",
+  "chat.welcome":
+    "¡Hola! Soy tu asistente inmobiliario. Puedo ayudarte a buscar propiedades. ¡Puedes hablarme o escribir tus preguntas!",
+  "chat.listening": "Escuchando",
+  "chat.liveTranscript": "Transcripción en directo",
+  "chat.micOn": "Micrófono activado",
+  "chat.micOff": "Micrófono desactivado",
+  "chat.debug": {
+    one: "{count} mensaje | Escuchando: {listening} | Transporte: {transport}",
+    other: "{count} mensajes | Escuchando: {listening} | Transporte: {transport}",
+  },
+  "chat.empty.connected": "¡Conectado! Empieza a hablar o escribe un mensaje.",
+  "chat.empty.realtime": "La IA responderá en tiempo real.",
+  "chat.empty.finalOnly": "Solo transcripciones finales, sin resultados parciales",
+  "chat.empty.interim": "Tus palabras aparecen en directo mientras hablas",
+  "chat.empty.disconnected": "Conéctate para empezar a chatear",
+  "chat.empty.awaits": "¡Te espera una conversación con IA!",
+  "chat.label.youSpoken": "Tú (hablado)",
+  "chat.label.youSpeaking": "Tú (hablando…)",
+  "chat.label.youTyped": "Tú (escrito)",
+  "chat.label.assistant": "Asistente IA",
+  "chat.label.assistantVoice": "Asistente IA (voz)",
+  "chat.muteMic": "Silenciar micrófono",
+  "chat.enableMic": "Activar micrófono",
+  "chat.placeholder": "Escribe un mensaje...",
+  "chat.sendFailed": "No se pudo enviar el mensaje. Inténtalo de nuevo.",
+  "chat.processFailed": "No se pudo procesar el mensaje. Inténtalo de nuevo.",
+  "chat.status.disconnected": "Haz clic en \"Conectar\" para hablar con la IA",
+  "chat.status.responding": "La IA está respondiendo...",
+  "chat.status.listening": "Voz detectada: procesando la transcripción final",
+  "chat.status.micOn": "🎤 Voz activada: habla con naturalidad",
+  "chat.status.micOff": "Activa el micrófono para chatear por voz o escribe para buscar propiedades",
+  "chat.quick.fencing": "Buen cercado",
+  "chat.quick.fencing.prompt": "Búscame una casa con buen cercado",
+  "chat.quick.budget": "Menos de $500k",
+  "chat.quick.budget.prompt": "Propiedades por menos de $500.000",
+  "chat.quick.bedrooms": "3 dormitorios",
+  "chat.quick.bedrooms.prompt": "Muéstrame casas de 3 dormitorios",
+
+  "results.title": "Resultados de búsqueda",
+  "results.query": "Consulta:",
+  "results.totalFound": "Total encontrado:",
+  "results.showing": "Mostrando:",
+  "results.ofMatching": "de {count} que coinciden",
+  "results.refine": "Refinar búsqueda",
+  "results.save": "Guardar búsqueda",
+  "results.chartFilter": "Filtro del gráfico:",
+  "results.clearChartFilter": "Quitar filtro del gráfico",
+  "results.noMatches": "Ninguna propiedad coincide con estos filtros.",
+  "results.resetFilters": "Restablecer filtros",
+  "results.loadMore": {
+    one: "Cargar más propiedades (queda {formatted})",
+    other: "Cargar más propiedades (quedan {formatted})",
+  },
+  "results.error.title": "¡Vaya! Algo salió mal",
+  "results.error.description": "Nuestra búsqueda se perdió un poco. ¿Por qué no lo preguntas de nuevo? 🏠✨",
+  "results.empty.title": "¿Listo para encontrar la casa de tus sueños?",
+  "results.empty.description": "¡Pídeme que busque propiedades y encontraré las mejores opciones! 🏡",
+
+  "export.button": "Exportar",
+  "export.csv": "Hoja de cálculo CSV",
+  "export.json": "Datos JSON",
+  "export.brochure": "Folleto imprimible (PDF)",
+  "export.brochure.title": "Propiedades: {query}",
+  "export.brochure.print": "Imprimir / Guardar como PDF",
+  "export.brochure.summary": {
+    one: "{formatted} propiedad · preparado el {date}",
+    other: "{formatted} propiedades · preparado el {date}",
+  },
+
+  "refine.minPrice": "Precio mínimo",
+  "refine.maxPrice": "Precio máximo",
+  "refine.noMin": "Sin mínimo",
+  "refine.noMax": "Sin máximo",
+  "refine.bedrooms": "Dormitorios",
+  "refine.bathrooms": "Baños",
+  "refine.propertyType": "Tipo de propiedad",
+  "refine.status": "Estado",
+  "refine.sortBy": "Ordenar por",
+  "refine.any": "Cualquiera",
+  "refine.mlsOnly": "Solo verificadas en MLS",
+  "refine.hint.connected": "El asistente ve estos filtros y los usará en tu próxima búsqueda.",
+  "refine.hint.disconnected": "Conéctate al asistente para buscar de nuevo con estos filtros.",
+  "refine.reset": "Volver a los filtros de la búsqueda",
+  "refine.searchAgain": "Buscar de nuevo",
+
+  "sort.relevance": "Relevancia",
+  "sort.price_asc": "Precio: de menor a mayor",
+  "sort.price_desc": "Precio: de mayor a menor",
+  "sort.score_desc": "Mejor puntuación",
+  "sort.beds_desc": "Más dormitorios",
+
+  "property.mlsVerified": "Verificada en MLS",
+  "property.score": "Puntuación: {score}",
+  "property.beds": { one: "{count} dormitorio", other: "{count} dormitorios" },
+  "property.baths": { one: "{count} baño", other: "{count} baños" },
+  "property.readMore": "Leer más",
+  "property.readLess": "Leer menos",
+  "property.imageLoading": "Cargando imagen...",
+  "property.imageUnavailable": "Imagen no disponible",
+  "property.addToShortlist": "Añadir a favoritos",
+  "property.removeFromShortlist": "Quitar de favoritos",
+  "property.compare": "Comparar",
+  "property.comparing": "Comparando",
+  "property.analysis": "Análisis de la propiedad con IA",
+  "property.noAnalysis": "No hay análisis de IA para esta propiedad.",
+
+  "affordability.affordable": "Asequible",
+  "affordability.stretch": "Al límite",
+  "affordability.over_budget": "Fuera de presupuesto",
+  "affordability.perMonth": "~{amount}/mes",
+
+  "shortlist.title": "Favoritos",
+  "shortlist.tab": "Favoritos ({count})",
+  "shortlist.clearAll": "Borrar todo",
+  "shortlist.empty.title": "Tu lista de favoritos está vacía",
+  "shortlist.empty.description": "Toca el corazón de cualquier propiedad para guardarla aquí entre búsquedas. 💕",
+  "shortlist.saved": "Guardada {when}",
+  "shortlist.savedFrom": "Guardada {when} desde \"{query}\"",
+
+  "saved.button": "Guardadas",
+  "saved.title": "Búsquedas guardadas",
+  "saved.description": "Vuelve a abrir una búsqueda guardada sin conexión o pide al asistente que la repita para ver qué cambió.",
+  "saved.empty.title": "Aún no hay búsquedas guardadas.",
+  "saved.empty.description": "Usa \"Guardar búsqueda\" en unos resultados para conservarlos aquí.",
+  "saved.propertyCount": { one: "{count} propiedad", other: "{count} propiedades" },
+  "saved.savedWhen": "guardada {when}",
+  "saved.open": "Abrir",
+  "saved.rerun": "Repetir",
+
+  "saveDialog.description": "Guarda la consulta, tus filtros y los resultados actuales para volver a abrirlos sin conexión.",
+  "saveDialog.name": "Nombre",
+  "saveDialog.placeholder": "p. ej. Casas familiares por menos de $500k",
+
+  "changes.title": "Cambios desde \"{name}\"",
+  "changes.savedWhen": "se guardó {when}",
+  "changes.none": "Sin cambios: las mismas propiedades a los mismos precios.",
+  "changes.added": { one: "{count} nueva", other: "{count} nuevas" },
+  "changes.removed": { one: "{count} ya no publicada", other: "{count} ya no publicadas" },
+  "changes.priceChanges": { one: "{count} cambio de precio", other: "{count} cambios de precio" },
+  "changes.statusChanges": { one: "{count} cambio de estado", other: "{count} cambios de estado" },
+  "changes.newLabel": "Nueva:",
+  "changes.goneLabel": "Retirada:",
+  "changes.priceDrop": "Bajada de precio:",
+  "changes.priceRise": "Subida de precio:",
+  "changes.statusLabel": "Estado:",
+  "changes.updateSnapshot": "Actualizar la búsqueda guardada",
+
+  "compare.tray": "Comparar {count}/{max}",
+  "compare.title": "Comparar propiedades",
+  "compare.description": "Se resalta el mejor valor de cada fila.",
+  "compare.remove": "Quitar de la comparación",
+  "compare.addAnother": "Añade otra propiedad para comparar",
+  "compare.noAnalysis": "Sin análisis",
+  "compare.row.price": "Precio",
+  "compare.row.bedrooms": "Dormitorios",
+  "compare.row.bathrooms": "Baños",
+  "compare.row.type": "Tipo",
+  "compare.row.status": "Estado",
+  "compare.row.mls_genuine": "Verificada en MLS",
+  "compare.row.search_score": "Puntuación",
+  "compare.row.ai_analysis": "Análisis de IA",
+
+  "stats.title": "Estadísticas del mercado",
+  "stats.listings": "Anuncios",
+  "stats.medianPrice": "Precio mediano",
+  "stats.meanPrice": "Precio medio",
+  "stats.priceRange": "Rango de precios",
+  "stats.active": "Activas",
+  "stats.otherStatus": "Otro estado",
+  "stats.mlsVerified": "Verificadas en MLS",
+  "stats.highScore": "Alta puntuación",
+  "stats.highScoreThreshold": "Alta puntuación (≥{threshold})",
+  "stats.source.server": "Datos de mercado",
+  "stats.source.results": "De los resultados",
+  "stats.marketUp": "Mercado sube {percent}",
+  "stats.marketDown": "Mercado baja {percent}",
+
+  "analytics.title": "Análisis",
+  "analytics.hint": "Haz clic en una barra para mostrar solo esas propiedades.",
+  "analytics.properties": "Propiedades",
+  "analytics.price": "Distribución de precios",
+  "analytics.bedrooms": "Precio mediano por dormitorios",
+  "analytics.type": "Propiedades por tipo",
+  "analytics.score": "Distribución de puntuación",
+
+  "mortgage.title": "Calculadora de hipoteca",
+  "mortgage.price": "Precio",
+  "mortgage.downPayment": "Entrada",
+  "mortgage.rate": "Tipo de interés (%)",
+  "mortgage.term": "Plazo (años)",
+  "mortgage.taxesPerYear": "Impuestos / año",
+  "mortgage.insurancePerYear": "Seguro / año",
+  "mortgage.monthlyPayment": "Cuota mensual estimada",
+  "mortgage.forProfile": "{level} para tu perfil",
+  "mortgage.principalInterest": "Capital e intereses",
+  "mortgage.taxes": "Impuestos",
+  "mortgage.insurance": "Seguro",
+  "mortgage.loanAmount": "Importe del préstamo",
+  "mortgage.totalInterest": "Intereses totales",
+  "mortgage.amortization": "Amortización por año",
+  "mortgage.principal": "Capital",
+  "mortgage.interest": "Intereses",
+  "mortgage.year": "Año {year}",
+
+  "buyer.title": "Perfil de comprador",
+  "buyer.description": "Se guarda en este navegador y se usa para marcar cada propiedad como asequible, al límite o fuera de presupuesto.",
+  "buyer.income": "Ingresos anuales del hogar",
+  "buyer.maxBudget": "Presupuesto máximo",
+  "buyer.downPayment": "Ahorros para la entrada",
+  "buyer.rate": "Tipo de interés previsto (%)",
+  "buyer.term": "Plazo del préstamo (años)",
+  "buyer.clear": "Borrar perfil",
+
+  "display.title": "Preferencias de visualización",
+  "display.description": "Cómo se muestran precios, números y fechas. Vista previa: {preview}",
+  "display.locale": "Configuración regional",
+  "display.browserDefault": "La del navegador",
+  "display.currency": "Moneda de visualización",
+  "display.listingCurrency": "Moneda del anuncio (sin conversión)",
+  "display.rates": "Tipos de cambio (por 1 USD)",
+
+  "detail.notFound.title": "Propiedad no encontrada",
+  "detail.notFound.description":
+    "Este anuncio no está en tus resultados recientes, favoritos ni búsquedas guardadas. Repite la búsqueda para verlo.",
+  "detail.backToDashboard": "Volver al panel",
+  "detail.backToResults": "Volver a los resultados",
+  "detail.copyLink": "Copiar enlace",
+  "detail.linkCopied.title": "Enlace copiado",
+  "detail.linkCopied.description": "Compártelo para volver a abrir esta propiedad.",
+  "detail.shortlisted": "En favoritos",
+  "detail.viewListing": "Ver anuncio",
+  "detail.description": "Descripción",
+  "detail.noDescription": "Sin descripción.",
+  "detail.photoAlt": "{address}: foto {index}",
+  "detail.photoCount": { one: "{count} foto", other: "{count} fotos" },
+
+  "devices.title": "Dispositivos de audio",
+  "devices.microphone": "Micrófono",
+  "devices.speaker": "Altavoz",
+  "devices.none": "No se encontraron dispositivos",
+  "devices.numbered": "Dispositivo {index}",
+  "devices.detect": "Detectar dispositivos",
+  "devices.unnamed": "El dispositivo",
+  "devices.systemDefault": "el predeterminado del sistema",
+  "devices.micUnplugged.title": "Micrófono desconectado",
+  "devices.speakerUnplugged.title": "Altavoz desconectado",
+  "devices.unplugged.description": "{device} se desconectó, así que cambiamos a {fallback}. Vuelve a conectarlo para usarlo de nuevo.",
+  "devices.error.title": "Problema con el dispositivo de audio",
+  "devices.error.description": "Comprueba que el micrófono esté conectado y permitido en el navegador.",
+
+  "settings.title": "Ajustes de conexión",
+  "settings.open": "Ajustes de conexión",
+  "settings.profiles": "Perfiles de entorno",
+  "settings.profilesDescription": "Ambos botones de conexión usan el perfil activo.",
+  "settings.editorDescription": "Dónde encontrar el bot y qué servicios debe usar.",
+  "settings.active": "Activo",
+  "settings.useProfile": "Usar este perfil",
+  "settings.addProfile": "Nuevo perfil",
+  "settings.newProfileName": "Perfil {count}",
+  "settings.copyName": "{name} (copia)",
+  "settings.duplicate": "Duplicar",
+  "settings.name": "Nombre del perfil",
+  "settings.endpoint": "URL de conexión",
+  "settings.llm": "LLM",
+  "settings.tts": "Texto a voz",
+  "settings.stt": "Voz a texto",
+  "settings.botDefault": "Predeterminado del bot",
+  "settings.requestData": "Datos adicionales de la solicitud (JSON)",
+  "settings.requestDataHint": "Se envían en cada solicitud de conexión, junto a los servicios y el idioma.",
+  "settings.saveFailed.title": "No se pudo guardar el perfil",
+  "settings.saved.title": "Perfil guardado",
+  "settings.saved.description": "«{name}» está actualizado.",
+  "settings.saved.nextCall": "«{name}» se guardó; los cambios se aplican desde la próxima llamada.",
+  "settings.error.nameRequired": "Ponle un nombre al perfil.",
+  "settings.error.endpointRequired": "Introduce la URL de conexión del bot.",
+  "settings.error.endpointInvalid": "No es una URL válida.",
+  "settings.error.endpointProtocol": "La URL debe empezar por http:// o https://.",
+  "settings.error.endpointDoubleScheme": "La URL repite el esquema, p. ej. «https://https://».",
+  "settings.error.requestDataJson": "No es un JSON válido.",
+  "settings.error.requestDataObject": "Los datos de la solicitud deben ser un objeto JSON.",
+
+  "recorder.title": "Grabadora de sesiones",
+  "recorder.record": "Grabar",
+  "recorder.stopAndSave": "Detener y guardar",
+  "recorder.load": "Cargar",
+  "recorder.replay": "Reproducir",
+  "recorder.stop": "Detener",
+  "recorder.eventCount": { one: "{count} evento", other: "{count} eventos" },
+  "recorder.saved.title": "Grabación guardada",
+  "recorder.saved.description": { one: "{count} evento en {seconds} s", other: "{count} eventos en {seconds} s" },
+  "recorder.invalid.title": "Grabación no válida",
+  "recorder.invalid.description": "Ese archivo no es una grabación de sesión RTVI.",
+
+  "notFound.title": "¡Vaya! Página no encontrada",
+  "notFound.home": "Volver al inicio",
+};
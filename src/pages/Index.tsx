@@ -1,7 +1,18 @@
+import { useOutlet } from "react-router-dom";
 import { Dashboard } from "@/components/Dashboard";
 
 const Index = () => {
-  return <Dashboard />;
+  // A nested page covers the dashboard without unmounting it
+  const page = useOutlet();
+
+  return (
+    <>
+      <div aria-hidden={page ? true : undefined}>
+        <Dashboard />
+      </div>
+      {page && <div className="fixed inset-0 z-40 overflow-y-auto overscroll-contain bg-background">{page}</div>}
+    </>
+  );
 };
 
 export default Index;
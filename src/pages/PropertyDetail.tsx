@@ -0,0 +1,218 @@
+import { useMemo, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { ArrowLeft, Bath, Bed, ExternalLink, Heart, Home, ImageIcon, Link2, MapPin } from "lucide-react";
+import { AiAnalysis } from "@/components/AiAnalysis";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useSavedSearches } from "@/hooks/use-saved-searches";
+import { useToast } from "@/hooks/use-toast";
+import { useFormatting } from "@/hooks/use-formatting";
+import { useTranslation } from "@/hooks/use-translation";
+import { findCachedProperty } from "@/lib/results-cache";
+import type { Property } from "@/lib/server-messages";
+
+function GalleryImage({ src, alt }: { src: string; alt: string }) {
+  const [failed, setFailed] = useState(false);
+  const { t } = useTranslation();
+
+  if (failed) {
+    return (
+      <div className="w-full aspect-video bg-muted rounded-lg flex flex-col items-center justify-center gap-2 text-muted-foreground">
+        <ImageIcon className="w-10 h-10" />
+        <span className="text-sm">{t("property.imageUnavailable")}</span>
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      className="w-full aspect-video object-cover rounded-lg bg-muted"
+      onError={() => setFailed(true)}
+    />
+  );
+}
+
+const PropertyDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  // Cards link here with the dashboard URL they came from, filters included
+  const location = useLocation();
+  const backTo = (location.state as { from?: string } | null)?.from ?? "/";
+  const { favorites, isFavorite, toggleFavorite } = useFavorites();
+  const { savedSearches } = useSavedSearches();
+  const { toast } = useToast();
+  const { formatPrice, formatPercent } = useFormatting();
+  const { t } = useTranslation();
+
+  // Recent results first, then anything the user kept around
+  const property = useMemo<Property | null>(() => {
+    if (!id) return null;
+    return (
+      findCachedProperty(id) ??
+      favorites.find((favorite) => favorite.property.id === id)?.property ??
+      savedSearches
+        .flatMap((search) => search.results.properties)
+        .find((candidate) => candidate.id === id) ??
+      null
+    );
+  }, [id, favorites, savedSearches]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: t("detail.linkCopied.title"), description: t("detail.linkCopied.description") });
+    } catch (error) {
+      console.error("❌ Failed to copy link:", error);
+    }
+  };
+
+  if (!property) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-4">
+          <Home className="w-16 h-16 text-muted-foreground mx-auto" />
+          <h1 className="text-2xl font-bold">{t("detail.notFound.title")}</h1>
+          <p className="text-muted-foreground max-w-md">
+            {t("detail.notFound.description")}
+          </p>
+          <Button asChild>
+            <Link to={backTo}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {t("detail.backToDashboard")}
+            </Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { details, metadata, images, url } = property;
+  const gallery = images.all.length > 0 ? images.all : [images.primary];
+  const favorited = isFavorite(property.id);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to={backTo}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {t("detail.backToResults")}
+            </Link>
+          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopyLink}>
+              <Link2 className="w-4 h-4 mr-1" />
+              {t("detail.copyLink")}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => toggleFavorite(property)}
+              aria-pressed={favorited}
+            >
+              <Heart className={`w-4 h-4 mr-1 ${favorited ? 'fill-red-500 text-red-500' : ''}`} />
+              {favorited ? t("detail.shortlisted") : t("shortlist.title")}
+            </Button>
+            <Button size="sm" asChild>
+              <a href={url} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="w-4 h-4 mr-1" />
+                {t("detail.viewListing")}
+              </a>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <Carousel className="mx-12">
+            <CarouselContent>
+              {gallery.map((src, index) => (
+                <CarouselItem key={`${src}-${index}`}>
+                  <GalleryImage src={src} alt={t("detail.photoAlt", { address: details.address, index: index + 1 })} />
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            {gallery.length > 1 && (
+              <>
+                <CarouselPrevious />
+                <CarouselNext />
+              </>
+            )}
+          </Carousel>
+          <p className="text-center text-xs text-muted-foreground">
+            {t("detail.photoCount", { count: gallery.length })}
+          </p>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("detail.description")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm whitespace-pre-wrap">
+                {details.description || t("detail.noDescription")}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardContent className="p-6 space-y-3">
+              <h1 className="text-3xl font-bold text-price-highlight">
+                {formatPrice(details.price, details.currency)}
+              </h1>
+              <div className="flex items-center text-muted-foreground">
+                <MapPin className="w-4 h-4 mr-1 shrink-0" />
+                <span>{details.address}</span>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center">
+                  <Bed className="w-4 h-4 mr-1 text-muted-foreground" />
+                  <span className="text-sm">{t("property.beds", { count: details.bedrooms })}</span>
+                </div>
+                <div className="flex items-center">
+                  <Bath className="w-4 h-4 mr-1 text-muted-foreground" />
+                  <span className="text-sm">{t("property.baths", { count: details.bathrooms })}</span>
+                </div>
+                <Badge variant="outline" className="text-xs">{details.type}</Badge>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Badge
+                  variant={metadata.status === 'active' ? 'default' : 'secondary'}
+                  className={metadata.status === 'active' ? 'bg-status-active hover:bg-status-active' : ''}
+                >
+                  {metadata.status.charAt(0).toUpperCase() + metadata.status.slice(1)}
+                </Badge>
+                {metadata.mls_genuine && <Badge variant="outline">{t("property.mlsVerified")}</Badge>}
+                <Badge variant="secondary">{t("property.score", { score: formatPercent(metadata.search_score) })}</Badge>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("property.analysis")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AiAnalysis analysis={details.ai_analysis_raw} />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PropertyDetail;
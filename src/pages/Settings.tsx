@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Check, Copy, Plus, Server, Trash2 } from "lucide-react";
+import { useConnectionProfiles } from "@/hooks/use-connection-profiles";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/use-translation";
+import { useVoiceSession } from "@/hooks/use-voice-session";
+import type { MessageKey } from "@/lib/i18n";
+import {
+  DEFAULT_CONNECTION_PROFILE,
+  LLM_OPTIONS,
+  parseRequestData,
+  STT_OPTIONS,
+  TTS_OPTIONS,
+  validateEndpoint,
+  type ConnectionProfile,
+} from "@/lib/connection-profiles";
+
+// Radix Select can't hold "", which is how a profile leaves a service to the bot
+const BOT_DEFAULT = "bot-default";
+
+type ServiceKey = keyof ConnectionProfile["services"];
+
+const SERVICE_FIELDS: Array<{ key: ServiceKey; label: MessageKey; options: string[] }> = [
+  { key: "llm", label: "settings.llm", options: LLM_OPTIONS },
+  { key: "tts", label: "settings.tts", options: TTS_OPTIONS },
+  { key: "stt", label: "settings.stt", options: STT_OPTIONS },
+];
+
+interface ProfileDraft {
+  name: string;
+  endpoint: string;
+  services: ConnectionProfile["services"];
+  requestData: string;
+}
+
+function toDraft(profile: ConnectionProfile): ProfileDraft {
+  const hasRequestData = Object.keys(profile.request_data).length > 0;
+  return {
+    name: profile.name,
+    endpoint: profile.endpoint,
+    services: { ...profile.services },
+    requestData: hasRequestData ? JSON.stringify(profile.request_data, null, 2) : "",
+  };
+}
+
+const Settings = () => {
+  // The dashboard links here with its own URL, so going back keeps the search
+  const location = useLocation();
+  const backTo = (location.state as { from?: string } | null)?.from ?? "/";
+  const { profiles, activeProfile, saveProfile, duplicateProfile, removeProfile, setActiveProfile } =
+    useConnectionProfiles();
+  const { isConnected } = useVoiceSession();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+
+  const [editingId, setEditingId] = useState(activeProfile.id);
+  const editing = profiles.find((profile) => profile.id === editingId) ?? activeProfile;
+  const [draft, setDraft] = useState<ProfileDraft>(() => toDraft(editing));
+  const [submitted, setSubmitted] = useState(false);
+
+  useEffect(() => {
+    setDraft(toDraft(editing));
+    setSubmitted(false);
+  }, [editing]);
+
+  const nameError: MessageKey | null = draft.name.trim() ? null : "settings.error.nameRequired";
+  const endpointError = validateEndpoint(draft.endpoint);
+  const requestData = parseRequestData(draft.requestData);
+  const requestDataError = "error" in requestData ? requestData.error : null;
+  const isValid = !nameError && !endpointError && !requestDataError;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitted(true);
+    if (!isValid || !("value" in requestData)) return;
+    try {
+      saveProfile({
+        ...editing,
+        name: draft.name.trim(),
+        endpoint: draft.endpoint.trim(),
+        services: draft.services,
+        request_data: requestData.value,
+      });
+    } catch {
+      toast({
+        title: t("settings.saveFailed.title"),
+        description: t("toast.storageUnavailable"),
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: t("settings.saved.title"),
+      description: t(
+        editing.id === activeProfile.id && isConnected ? "settings.saved.nextCall" : "settings.saved.description",
+        { name: draft.name.trim() }
+      ),
+    });
+  };
+
+  const handleAdd = () => {
+    const profile = duplicateProfile(DEFAULT_CONNECTION_PROFILE, t("settings.newProfileName", { count: profiles.length + 1 }));
+    setEditingId(profile.id);
+  };
+
+  const handleDuplicate = () => {
+    const profile = duplicateProfile(editing, t("settings.copyName", { name: editing.name }));
+    setEditingId(profile.id);
+  };
+
+  // The editor falls back to the active profile once this one is gone
+  const handleRemove = () => removeProfile(editing.id);
+
+  const fieldError = (error: MessageKey | null) =>
+    submitted && error ? <p className="text-xs text-destructive">{t(error)}</p> : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to={backTo}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {t("detail.backToDashboard")}
+            </Link>
+          </Button>
+          <h1 className="text-lg font-semibold">{t("settings.title")}</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t("settings.profiles")}</CardTitle>
+            <CardDescription>{t("settings.profilesDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {profiles.map((profile) => (
+              <button
+                key={profile.id}
+                type="button"
+                onClick={() => setEditingId(profile.id)}
+                className={`w-full text-left rounded-md border p-3 transition-colors hover:bg-muted ${
+                  profile.id === editing.id ? "border-primary bg-muted" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium truncate">{profile.name}</span>
+                  {profile.id === activeProfile.id && <Badge variant="secondary">{t("settings.active")}</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{profile.endpoint}</p>
+              </button>
+            ))}
+            <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleAdd}>
+              <Plus className="w-4 h-4 mr-1" />
+              {t("settings.addProfile")}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <form onSubmit={handleSubmit}>
+            <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Server className="w-4 h-4" />
+                  {editing.name}
+                </CardTitle>
+                <CardDescription>{t("settings.editorDescription")}</CardDescription>
+              </div>
+              {editing.id === activeProfile.id ? (
+                <Badge variant="secondary">{t("settings.active")}</Badge>
+              ) : (
+                <Button type="button" variant="outline" size="sm" onClick={() => setActiveProfile(editing.id)}>
+                  <Check className="w-4 h-4 mr-1" />
+                  {t("settings.useProfile")}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="profile-name">{t("settings.name")}</Label>
+                <Input
+                  id="profile-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+                {fieldError(nameError)}
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="profile-endpoint">{t("settings.endpoint")}</Label>
+                <Input
+                  id="profile-endpoint"
+                  value={draft.endpoint}
+                  placeholder="https://example.com/connect"
+                  onChange={(e) => setDraft({ ...draft, endpoint: e.target.value })}
+                />
+                {fieldError(endpointError)}
+              </div>
+
+              <div className="grid gap-3 sm:grid-cols-3">
+                {SERVICE_FIELDS.map(({ key, label, options }) => (
+                  <div key={key} className="space-y-1.5">
+                    <Label>{t(label)}</Label>
+                    <Select
+                      value={draft.services[key] || BOT_DEFAULT}
+                      onValueChange={(value) =>
+                        setDraft({ ...draft, services: { ...draft.services, [key]: value === BOT_DEFAULT ? "" : value } })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={BOT_DEFAULT}>{t("settings.botDefault")}</SelectItem>
+                        {/* Keep a hand-edited name that isn't in the list selectable */}
+                        {[...new Set([...options, draft.services[key]])].filter(Boolean).map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {option}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="profile-request-data">{t("settings.requestData")}</Label>
+                <Textarea
+                  id="profile-request-data"
+                  rows={6}
+                  className="font-mono text-xs"
+                  value={draft.requestData}
+                  placeholder={'{\n  "voice_id": "..."\n}'}
+                  onChange={(e) => setDraft({ ...draft, requestData: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">{t("settings.requestDataHint")}</p>
+                {fieldError(requestDataError)}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 pt-2">
+                <Button type="submit">{t("common.save")}</Button>
+                <Button type="button" variant="outline" onClick={() => setDraft(toDraft(editing))}>
+                  {t("common.reset")}
+                </Button>
+                <Button type="button" variant="outline" onClick={handleDuplicate}>
+                  <Copy className="w-4 h-4 mr-1" />
+                  {t("settings.duplicate")}
+                </Button>
+                {profiles.length > 1 && (
+                  <Button type="button" variant="ghost" className="ml-auto text-destructive" onClick={handleRemove}>
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    {t("common.delete")}
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </form>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,52 @@
+import type { FiltersApplied, Property, SearchResultData } from "@/lib/server-messages";
+
+type PropertyOverrides = Partial<Omit<Property, "details" | "metadata" | "images">> & {
+  details?: Partial<Property["details"]>;
+  metadata?: Partial<Property["metadata"]>;
+  images?: Partial<Property["images"]>;
+};
+
+export function makeProperty(overrides: PropertyOverrides = {}): Property {
+  const id = overrides.id ?? "p1";
+  return {
+    id,
+    url: overrides.url ?? `https://listings.example.com/${id}`,
+    images: { primary: `https://images.example.com/${id}.jpg`, all: [], ...overrides.images },
+    details: {
+      address: "12 Maple Street, Springfield",
+      price: 450_000,
+      currency: "USD",
+      bedrooms: "3",
+      bathrooms: "2",
+      type: "House",
+      description: "",
+      ai_analysis_raw: null,
+      ...overrides.details,
+    },
+    metadata: { search_score: 0.8, mls_genuine: true, status: "active", ...overrides.metadata },
+  };
+}
+
+export const NO_FILTERS_APPLIED: FiltersApplied = {
+  min_price: null,
+  max_price: null,
+  bedrooms: null,
+  bathrooms: null,
+  property_type: null,
+  location_keywords: null,
+  mls_genuine: null,
+  ai_analysis_raw: null,
+};
+
+export function makeSearchResults(properties: Property[], overrides: Partial<SearchResultData> = {}): SearchResultData {
+  return {
+    type: "property_search_results",
+    timestamp: 1_700_000_000_000,
+    search_id: "search-1",
+    query: "family homes",
+    summary: { total_found: properties.length, showing: properties.length, execution_time: 0.4, search_type: "semantic" },
+    filters_applied: NO_FILTERS_APPLIED,
+    properties,
+    ...overrides,
+  };
+}
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_PIPECAT_API_URL?: string;
+  /** Set to "mock" to use the offline scripted transport */
+  readonly VITE_PIPECAT_TRANSPORT?: string;
+}